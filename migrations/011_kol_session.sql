@@ -0,0 +1,6 @@
+CREATE TABLE kol_session (
+  username VARCHAR (31) PRIMARY KEY,
+  session_cookies TEXT NOT NULL,
+  pwdhash VARCHAR (64) NOT NULL,
+  fetched bigint NOT NULL
+);
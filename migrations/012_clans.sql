@@ -0,0 +1,11 @@
+CREATE TABLE clans (
+  clan_id BIGINT PRIMARY KEY,
+  name VARCHAR (63) NOT NULL,
+  synonyms TEXT[] NOT NULL DEFAULT '{}',
+  dungeons TEXT[] NOT NULL DEFAULT '{}'
+);
+
+INSERT INTO clans (clan_id, name, synonyms, dungeons) VALUES
+  (2047008362, 'Collaborative Dungeon Running 1', '{cdr1,1}', '{dreadsylvania}'),
+  (2047008363, 'Collaborative Dungeon Running 2', '{cdr2,2}', '{dreadsylvania}'),
+  (2047008364, 'Collaborative Dungeon Running Central', '{central}', '{hobopolis,slimetube,sorority}');
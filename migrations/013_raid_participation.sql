@@ -0,0 +1,23 @@
+CREATE TABLE raid_participation (
+  raid_id VARCHAR (8) NOT NULL,
+  clan_id BIGINT NOT NULL,
+  player_id INTEGER NOT NULL,
+  username VARCHAR (31) NOT NULL,
+  kills INTEGER NOT NULL DEFAULT 0,
+  skills SMALLINT NOT NULL DEFAULT 0,
+  finished DATE,
+  PRIMARY KEY (raid_id, player_id)
+);
+
+CREATE INDEX raid_participation_username ON raid_participation (username);
+
+-- Running totals can't be split back into the raids they came from, so each player's becomes a
+-- single baseline row, filed under whichever of their names has the most kills. Raids we've
+-- already counted stay tracked so they aren't counted twice, and anyone whose id we never looked
+-- up keeps their totals on their players row until it's known.
+INSERT INTO raid_participation (raid_id, clan_id, player_id, username, kills, skills)
+  SELECT 'baseline', 0, CAST(user_id AS INTEGER), (ARRAY_AGG(username ORDER BY kills DESC))[1],
+    SUM(kills), SUM(skills)
+  FROM players
+  WHERE user_id ~ '^[0-9]+$' AND (kills > 0 OR skills > 0)
+  GROUP BY user_id;
@@ -0,0 +1,32 @@
+ALTER TABLE players RENAME TO legacy_players;
+ALTER TABLE legacy_players RENAME CONSTRAINT players_pkey TO legacy_players_pkey;
+
+CREATE TABLE players (
+  player_id INTEGER PRIMARY KEY,
+  username VARCHAR (31) NOT NULL,
+  done_with_skills BOOLEAN NOT NULL DEFAULT FALSE,
+  brainiac BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+-- A player who changed their name has a row under each, so fold their flags together. The rows
+-- don't say which name is newest, so they go by the name from their latest recorded raid if there
+-- is one, and otherwise keep one of their names until the next raid they're seen in renames them.
+INSERT INTO players (player_id, username, done_with_skills, brainiac)
+  SELECT CAST(user_id AS INTEGER),
+    COALESCE(
+      (SELECT username FROM raid_participation
+        WHERE player_id = CAST(user_id AS INTEGER) AND finished IS NOT NULL
+        ORDER BY finished DESC LIMIT 1),
+      MIN(username)
+    ),
+    BOOL_OR(done_with_skills), BOOL_OR(brainiac)
+  FROM legacy_players
+  WHERE user_id ~ '^[0-9]+$'
+  GROUP BY user_id;
+
+-- Whatever is left never had an id looked up, and is resolved by name at startup along with its totals
+DELETE FROM legacy_players WHERE user_id ~ '^[0-9]+$';
+ALTER TABLE legacy_players DROP COLUMN user_id;
+
+CREATE INDEX raid_participation_player_id ON raid_participation (player_id);
+DROP INDEX raid_participation_username;
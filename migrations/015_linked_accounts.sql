@@ -0,0 +1,6 @@
+CREATE TABLE linked_accounts (
+  discord_id VARCHAR (32) PRIMARY KEY,
+  player_id INTEGER NOT NULL UNIQUE,
+  username VARCHAR (31) NOT NULL,
+  linked bigint NOT NULL
+);
@@ -0,0 +1,8 @@
+CREATE TABLE dungeon_resets (
+  reset_id SERIAL PRIMARY KEY,
+  clan_id BIGINT NOT NULL,
+  discord_id VARCHAR (32) NOT NULL,
+  requested bigint NOT NULL,
+  outcome VARCHAR (15) NOT NULL,
+  raid_id VARCHAR (8)
+);
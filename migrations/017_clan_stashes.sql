@@ -0,0 +1,21 @@
+CREATE TABLE stash_snapshots (
+  clan_id BIGINT NOT NULL,
+  item_id INTEGER NOT NULL,
+  name VARCHAR (255) NOT NULL,
+  quantity INTEGER NOT NULL,
+  seen bigint NOT NULL,
+  PRIMARY KEY (clan_id, item_id)
+);
+
+CREATE TABLE stash_log (
+  entry_id SERIAL PRIMARY KEY,
+  clan_id BIGINT NOT NULL,
+  player_id INTEGER NOT NULL,
+  username VARCHAR (31) NOT NULL,
+  action VARCHAR (5) NOT NULL,
+  item VARCHAR (255) NOT NULL,
+  quantity INTEGER NOT NULL,
+  happened bigint NOT NULL
+);
+
+CREATE INDEX stash_log_clan_happened ON stash_log (clan_id, happened);
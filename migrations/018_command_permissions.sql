@@ -0,0 +1,26 @@
+CREATE TABLE command_permissions (
+  guild_id VARCHAR (32) NOT NULL,
+  command VARCHAR (32) NOT NULL,
+  target_type VARCHAR (4) NOT NULL,
+  target_id VARCHAR (32) NOT NULL,
+  PRIMARY KEY (guild_id, command, target_type, target_id)
+);
+
+CREATE TABLE permission_guilds (
+  guild_id VARCHAR (32) PRIMARY KEY
+);
+
+-- Rows under guild '*' are the template each server starts from the first time OAF sees it.
+-- These are the moderator roles and user that used to be written into the code.
+INSERT INTO command_permissions (guild_id, command, target_type, target_id)
+SELECT '*', command, target.target_type, target.target_id
+FROM unnest(ARRAY[
+  'whitelist', 'unwhitelist', 'whitelisted', 'resetdread',
+  'addclan', 'removeclan', 'editclan',
+  'grant', 'revoke', 'config'
+]) AS command
+CROSS JOIN (VALUES
+  ('role', '473316929768128512'),
+  ('role', '466624206126448641'),
+  ('user', '145957353487990784')
+) AS target (target_type, target_id);
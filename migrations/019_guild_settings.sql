@@ -0,0 +1,36 @@
+CREATE TABLE guild_settings (
+  guild_id VARCHAR (32) PRIMARY KEY,
+  role_channel_id VARCHAR (32),
+  dread_alert_channel_id VARCHAR (32),
+  stash_alert_channel_id VARCHAR (32),
+  footer VARCHAR (255),
+  disabled_commands TEXT[] NOT NULL DEFAULT '{}',
+  all_clans BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE reaction_roles (
+  guild_id VARCHAR (32) NOT NULL,
+  emoji VARCHAR (64) NOT NULL,
+  role_id VARCHAR (32) NOT NULL,
+  PRIMARY KEY (guild_id, emoji)
+);
+
+-- The managed clans each server follows. A new server follows none until it's given some, or is
+-- set to follow them all with all_clans.
+CREATE TABLE guild_clans (
+  guild_id VARCHAR (32) NOT NULL,
+  clan_id BIGINT NOT NULL REFERENCES clans (clan_id) ON DELETE CASCADE,
+  PRIMARY KEY (guild_id, clan_id)
+);
+
+-- As with permissions, guild '*' is the template each server starts from the first time OAF sees
+-- it. These are the reaction-role channel and roles that used to be written into the code.
+INSERT INTO guild_settings (guild_id, role_channel_id) VALUES ('*', '741479910886866944');
+
+INSERT INTO reaction_roles (guild_id, emoji, role_id) VALUES
+  ('*', '🇹', '741479573337800706'),
+  ('*', '♀️', '741479514902757416'),
+  ('*', '♂️', '741479366319538226'),
+  ('*', '👂', '466622497991688202'),
+  ('*', '🚫', '512522219574919179'),
+  ('*', '✅', '754473984661258391');
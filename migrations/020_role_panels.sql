@@ -0,0 +1,25 @@
+CREATE TABLE role_panels (
+  message_id VARCHAR (32) PRIMARY KEY,
+  guild_id VARCHAR (32) NOT NULL,
+  channel_id VARCHAR (32) NOT NULL,
+  title VARCHAR (255) NOT NULL,
+  exclusive BOOLEAN NOT NULL DEFAULT FALSE,
+  buttons BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE role_panel_bindings (
+  message_id VARCHAR (32) NOT NULL REFERENCES role_panels (message_id) ON DELETE CASCADE,
+  emoji VARCHAR (64) NOT NULL,
+  role_id VARCHAR (32) NOT NULL,
+  label VARCHAR (80),
+  position SERIAL,
+  PRIMARY KEY (message_id, emoji)
+);
+
+-- Whoever can hand out permissions in a server can manage its role panels too
+INSERT INTO command_permissions (guild_id, command, target_type, target_id)
+SELECT granted.guild_id, panel_command.name, granted.target_type, granted.target_id
+FROM command_permissions AS granted
+CROSS JOIN unnest(ARRAY['rolepanel', 'editpanel', 'removepanel', 'rolebind', 'roleunbind'])
+  AS panel_command (name)
+WHERE granted.command = 'grant';
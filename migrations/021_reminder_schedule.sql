@@ -0,0 +1,10 @@
+ALTER TABLE reminders ADD COLUMN status VARCHAR (9) NOT NULL DEFAULT 'pending';
+ALTER TABLE reminders ADD COLUMN recurrence VARCHAR (15);
+
+-- Reminders used to stay in the table for a week after they went out, so anything due before the
+-- last few minutes has already been sent. Ones that came due in those minutes, while OAF was being
+-- restarted for this, are left pending so the scheduler sends them late with an apology.
+UPDATE reminders SET status = 'fired'
+WHERE reminder_time < (EXTRACT(EPOCH FROM NOW()) - 10 * 60) * 1000;
+
+CREATE INDEX reminders_pending ON reminders (status, reminder_time);
@@ -0,0 +1,5 @@
+CREATE TABLE user_settings (
+  discord_id VARCHAR (32) PRIMARY KEY,
+  -- An IANA zone such as "Europe/London"; times of day people give OAF are read in it
+  time_zone VARCHAR (64)
+);
@@ -0,0 +1,156 @@
+import { randomBytes } from "crypto";
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import { CommandInteraction } from "discord.js";
+import { Pool } from "pg";
+import { DiscordClient } from "./discord";
+import { KOLClient } from "./kolclient";
+
+export type LinkedAccount = {
+  discordId: string;
+  playerId: number;
+  username: string;
+};
+
+type PendingLink = {
+  playerId: number;
+  username: string;
+  code: string;
+  requested: number;
+};
+
+// How long someone has to send their code before they need to ask for another
+const LINK_EXPIRY = 60 * 60 * 1000;
+
+const linkedAccounts: Map<string, LinkedAccount> = new Map();
+const pendingLinks: Map<string, PendingLink> = new Map();
+
+export async function syncLinkedAccounts(databaseClientPool: Pool): Promise<void> {
+  linkedAccounts.clear();
+  for (let row of (await databaseClientPool.query("SELECT * FROM linked_accounts;")).rows) {
+    linkedAccounts.set(row.discord_id, {
+      discordId: row.discord_id,
+      playerId: row.player_id,
+      username: row.username,
+    });
+  }
+}
+
+export function getLinkedPlayer(discordId: string): LinkedAccount | undefined {
+  return linkedAccounts.get(discordId);
+}
+
+export function getLinkedDiscordId(playerId: number): string | undefined {
+  return [...linkedAccounts.values()].find((account) => account.playerId === playerId)?.discordId;
+}
+
+export function attachAccountCommands(
+  discordClient: DiscordClient,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+) {
+  discordClient.attachCommand(
+    "link",
+    [
+      {
+        name: "player",
+        description: "Your name in KoL.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+      },
+    ],
+    (interaction: CommandInteraction) => requestLink(interaction, kolClient),
+    "Start linking your Discord account to your KoL account."
+  );
+  discordClient.attachCommand(
+    "verify",
+    [],
+    (interaction: CommandInteraction) => verifyLink(interaction, kolClient, databaseClientPool),
+    "Finish linking your accounts once you've kmailed OAF your code."
+  );
+  discordClient.attachCommand(
+    "unlink",
+    [],
+    (interaction: CommandInteraction) => unlink(interaction, databaseClientPool),
+    "Forget which KoL account your Discord account belongs to."
+  );
+}
+
+async function requestLink(interaction: CommandInteraction, kolClient: KOLClient): Promise<void> {
+  const username = interaction.options.getString("player", true);
+  await interaction.deferReply({ ephemeral: true });
+  const playerId = parseInt((await kolClient.getBasicDetailsForUser(username)).id);
+  if (!playerId) {
+    interaction.editReply(`I couldn't find a player called "${username}".`);
+    return;
+  }
+  const code = `oaf-${randomBytes(3).toString("hex")}`;
+  pendingLinks.set(interaction.user.id, {
+    playerId: playerId,
+    username: username,
+    code: code,
+    requested: Date.now(),
+  });
+  interaction.editReply(
+    `To prove you're ${username} (#${playerId}), send a kmail to ${
+      process.env.KOL_USER || "OAF"
+    } in game containing the code \`${code}\`, then run /verify. The code is good for an hour.`
+  );
+}
+
+async function verifyLink(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  const pending = pendingLinks.get(interaction.user.id);
+  if (!pending || Date.now() - pending.requested > LINK_EXPIRY) {
+    interaction.reply({
+      content: "You don't have a link waiting to be verified. Start one with /link.",
+      ephemeral: true,
+    });
+    return;
+  }
+  await interaction.deferReply({ ephemeral: true });
+  const proof = (await kolClient.getKmails()).find(
+    (kmail) =>
+      kmail.senderId === pending.playerId &&
+      kmail.sent * 1000 >= pending.requested - 60 * 1000 &&
+      kmail.message.toLowerCase().includes(pending.code)
+  );
+  if (!proof) {
+    interaction.editReply(
+      `I haven't had a kmail from ${pending.username} containing \`${pending.code}\` yet. Kmails can take a moment to arrive, so try again shortly.`
+    );
+    return;
+  }
+  // Whoever can send kmails from an account owns it, so this replaces any older link to it
+  await databaseClientPool.query("DELETE FROM linked_accounts WHERE player_id = $1;", [
+    pending.playerId,
+  ]);
+  await databaseClientPool.query(
+    "INSERT INTO linked_accounts (discord_id, player_id, username, linked) VALUES ($1, $2, $3, $4) ON CONFLICT (discord_id) DO UPDATE SET player_id = $2, username = $3, linked = $4;",
+    [interaction.user.id, pending.playerId, proof.senderName, Date.now()]
+  );
+  pendingLinks.delete(interaction.user.id);
+  await syncLinkedAccounts(databaseClientPool);
+  await kolClient.deleteKmails([proof.id]);
+  interaction.editReply(
+    `Linked you to ${proof.senderName} (#${pending.playerId}). Dreadsylvania commands will now assume you mean yourself.`
+  );
+}
+
+async function unlink(interaction: CommandInteraction, databaseClientPool: Pool): Promise<void> {
+  const account = linkedAccounts.get(interaction.user.id);
+  if (!account) {
+    interaction.reply({ content: "Your account isn't linked to anyone.", ephemeral: true });
+    return;
+  }
+  await databaseClientPool.query("DELETE FROM linked_accounts WHERE discord_id = $1;", [
+    interaction.user.id,
+  ]);
+  linkedAccounts.delete(interaction.user.id);
+  interaction.reply({
+    content: `You're no longer linked to ${account.username} (#${account.playerId}).`,
+    ephemeral: true,
+  });
+}
@@ -0,0 +1,58 @@
+import { eventsFor, RaidLog, RaidLogEvent } from "./raidlogparser";
+
+export type DungeonFighter = {
+  player: string;
+  playerId: number;
+  kills: number;
+  turns: number;
+};
+
+export type SlimeTubeStatus = {
+  slimesKilled: number;
+  motherSlimeDefeated: boolean;
+  fighters: DungeonFighter[];
+};
+
+export type SororityHouseStatus = {
+  kills: Map<string, number>;
+  fighters: DungeonFighter[];
+};
+
+function fightersFrom(events: RaidLogEvent[]): DungeonFighter[] {
+  const fighters: Map<number, DungeonFighter> = new Map();
+  for (const event of events) {
+    const fighter = fighters.get(event.playerId) || {
+      player: event.player,
+      playerId: event.playerId,
+      kills: 0,
+      turns: 0,
+    };
+    if (event.action.startsWith("defeated ")) fighter.kills += event.count;
+    fighter.turns += event.turns;
+    fighters.set(event.playerId, fighter);
+  }
+  return [...fighters.values()].sort((a, b) => b.kills - a.kills);
+}
+
+export function extractSlimeTubeStatus(raidLog: RaidLog): SlimeTubeStatus {
+  const events = eventsFor(raidLog, "The Slime Tube");
+  return {
+    slimesKilled: events
+      .filter((event) => /^defeated (a )?Slime$/i.test(event.action))
+      .reduce((acc, event) => acc + event.count, 0),
+    motherSlimeDefeated: events.some((event) =>
+      /^defeated (the )?Mother Slime/i.test(event.action)
+    ),
+    fighters: fightersFrom(events),
+  };
+}
+
+export function extractSororityHouseStatus(raidLog: RaidLog): SororityHouseStatus {
+  const events = eventsFor(raidLog, "The Haunted Sorority House");
+  const kills: Map<string, number> = new Map();
+  for (const event of events) {
+    const monster = /^defeated (?:an? )?(?:sexy sorority )?(.+)$/i.exec(event.action);
+    if (monster) kills.set(monster[1], (kills.get(monster[1]) ?? 0) + event.count);
+  }
+  return { kills: kills, fighters: fightersFrom(events) };
+}
@@ -0,0 +1,40 @@
+import { decode } from "html-entities";
+
+export type ChatMessage = {
+  id: number;
+  type: string;
+  channel: string;
+  sender: string;
+  senderId: number;
+  // Plain text, with KoL's markup stripped out
+  message: string;
+  emote: boolean;
+  // Seconds since the epoch, as KoL reports it
+  time: number;
+};
+
+// KoL's chat only accepts a line about this long
+export const MAX_CHAT_LENGTH = 200;
+
+export function parseChatMessage(message: any): ChatMessage {
+  return {
+    id: parseInt(message.mid || "0"),
+    type: message.type,
+    channel: message.channel || "",
+    sender: message.who?.name || "",
+    senderId: parseInt(message.who?.id || "0"),
+    message: decode((message.msg || "").replace(/<[^>]+>/g, "")).trim(),
+    emote: message.format === "1",
+    time: parseInt(message.time || "0"),
+  };
+}
+
+// KoL chat can't show much outside of Latin-1, and lines can't be broken
+export function toKoLChat(text: string): string {
+  return text
+    .replace(/<a?:(\w+):\d+>/g, ":$1:")
+    .replace(/\s*\n\s*/g, " / ")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
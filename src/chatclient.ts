@@ -0,0 +1,80 @@
+import { ChatMessage } from "./chat";
+import { KOLClient, KoLUnavailableError } from "./kolclient";
+
+// How often to check KoL for new chat
+const POLL_INTERVAL = 5 * 1000;
+// How often a line can be said, to stay clear of KoL's flood protection
+const SEND_INTERVAL = 2 * 1000;
+// How many lines can be waiting to go out before we start turning them away
+const MAX_QUEUE = 20;
+
+type ChatListener = (message: ChatMessage) => void | Promise<void>;
+
+// Shares OAF's one view of KoL chat between everything that wants to read or talk in it
+export class ChatClient {
+  private _kolClient: KOLClient;
+  private _listeners: ChatListener[] = [];
+  private _outgoing: string[] = [];
+  private _polling = false;
+  private _started = false;
+
+  constructor(kolClient: KOLClient) {
+    this._kolClient = kolClient;
+  }
+
+  addListener(listener: ChatListener): void {
+    this._listeners.push(listener);
+  }
+
+  // Queues a line of chat, such as "/clan hello", and says whether there was room for it
+  send(line: string): boolean {
+    if (this._outgoing.length >= MAX_QUEUE) return false;
+    this._outgoing.push(line);
+    return true;
+  }
+
+  start(): void {
+    if (this._started) return;
+    this._started = true;
+    setInterval(() => this.poll(), POLL_INTERVAL);
+    setInterval(() => this.sendNext(), SEND_INTERVAL);
+  }
+
+  private async poll(): Promise<void> {
+    // A slow Kingdom, or a long trip to another clan, shouldn't stack polls up behind each other
+    if (this._polling) return;
+    this._polling = true;
+    let messages: ChatMessage[];
+    try {
+      messages = await this._kolClient.getChatMessages();
+    } catch (error) {
+      // We'll pick up where we left off once the Kingdom is back
+      if (!(error instanceof KoLUnavailableError)) console.log(error);
+      return;
+    } finally {
+      this._polling = false;
+    }
+    const self = (process.env.KOL_USER || "").toLowerCase();
+    for (const message of messages.filter((message) => message.sender.toLowerCase() !== self)) {
+      for (const listener of this._listeners) {
+        try {
+          await listener(message);
+        } catch (error) {
+          console.log(error);
+        }
+      }
+    }
+  }
+
+  private async sendNext(): Promise<void> {
+    const line = this._outgoing.shift();
+    if (!line) return;
+    try {
+      await this._kolClient.sendChat(line);
+    } catch (error) {
+      if (!(error instanceof KoLUnavailableError)) console.log(error);
+      // Keep it for when the Kingdom is back, as long as people aren't still piling in behind it
+      if (this._outgoing.length < MAX_QUEUE) this._outgoing.unshift(line);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Client, Message, TextBasedChannel, Util } from "discord.js";
+import { ChatMessage, MAX_CHAT_LENGTH, toKoLChat } from "./chat";
+import { ChatClient } from "./chatclient";
+import { KOLClient } from "./kolclient";
+
+// Mirrors one clan's /clan chat into a Discord channel, and that channel back into /clan
+export class ChatRelay {
+  private _kolClient: KOLClient;
+  private _chatClient: ChatClient;
+  private _discordClient: Client;
+  private _clanId: number;
+  private _channelId: string;
+  private _channel?: TextBasedChannel;
+
+  constructor(
+    kolClient: KOLClient,
+    chatClient: ChatClient,
+    discordClient: Client,
+    clanId: number,
+    channelId: string
+  ) {
+    this._kolClient = kolClient;
+    this._chatClient = chatClient;
+    this._discordClient = discordClient;
+    this._clanId = clanId;
+    this._channelId = channelId;
+  }
+
+  start(): void {
+    this._kolClient.setHomeClan(this._clanId);
+    this._discordClient.on("messageCreate", (message: Message) => this.onDiscordMessage(message));
+    this._chatClient.addListener((message: ChatMessage) => this.onKoLMessage(message));
+    this._chatClient.send("/listenon clan");
+    this._chatClient.start();
+  }
+
+  private async channel(): Promise<TextBasedChannel | undefined> {
+    if (!this._channel) {
+      const channel = await this._discordClient.channels.fetch(this._channelId);
+      if (channel?.isText()) this._channel = channel;
+    }
+    return this._channel;
+  }
+
+  private async onKoLMessage(message: ChatMessage): Promise<void> {
+    if (message.type !== "public" || message.channel !== "clan") return;
+    const channel = await this.channel();
+    if (!channel) return;
+    const sender = Util.escapeMarkdown(message.sender);
+    const text = Util.escapeMarkdown(message.message);
+    await channel.send({
+      content: message.emote ? `*${sender} ${text}*` : `**${sender}**: ${text}`,
+      allowedMentions: { parse: [] },
+    });
+  }
+
+  private onDiscordMessage(message: Message): void {
+    if (message.channelId !== this._channelId || message.author.bot) return;
+    const name = toKoLChat(message.member?.displayName || message.author.username) || "someone";
+    const attachments = message.attachments.size ? " [attachment]" : "";
+    const text = toKoLChat(message.cleanContent) + attachments;
+    if (!text.trim()) return;
+    const line = `/clan [Discord] ${name}: ${text}`;
+    const sent = this._chatClient.send(
+      line.length > MAX_CHAT_LENGTH ? `${line.slice(0, MAX_CHAT_LENGTH - 3)}...` : line
+    );
+    if (!sent) message.react("🐌").catch(() => {});
+  }
+}
@@ -0,0 +1,285 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import { CommandInteraction } from "discord.js";
+import { Pool } from "pg";
+import { DUNGEON_TYPES } from "./constants";
+import { DiscordClient, PortableInteraction } from "./discord";
+
+export type Clan = {
+  id: number;
+  name: string;
+  synonyms: string[];
+  dungeons: string[];
+};
+
+let clans: Clan[] = [];
+// The clans each server has picked to follow
+const guildClans: Map<string, number[]> = new Map();
+// Servers that follow every managed clan, including ones added later
+const allClanGuilds: Set<string> = new Set();
+
+export async function syncClans(databaseClientPool: Pool): Promise<void> {
+  clans = (await databaseClientPool.query("SELECT * FROM clans ORDER BY name;")).rows.map(
+    (row) => ({
+      id: parseInt(row.clan_id),
+      name: row.name,
+      synonyms: row.synonyms,
+      dungeons: row.dungeons,
+    })
+  );
+  guildClans.clear();
+  for (let row of (await databaseClientPool.query("SELECT * FROM guild_clans;")).rows) {
+    guildClans.set(row.guild_id, [...(guildClans.get(row.guild_id) || []), parseInt(row.clan_id)]);
+  }
+  allClanGuilds.clear();
+  for (let row of (
+    await databaseClientPool.query("SELECT guild_id FROM guild_settings WHERE all_clans;")
+  ).rows) {
+    allClanGuilds.add(row.guild_id);
+  }
+}
+
+export function followsEveryClan(guildId: string): boolean {
+  return allClanGuilds.has(guildId);
+}
+
+// Outside of a server, every managed clan. A server only sees the clans it follows, which are none
+// until it's been given some with /config.
+export function getClans(dungeon?: string, guildId?: string | null): Clan[] {
+  const followed =
+    guildId && !allClanGuilds.has(guildId) ? guildClans.get(guildId) ?? [] : undefined;
+  return clans.filter(
+    (clan) =>
+      (!dungeon || clan.dungeons.includes(dungeon)) && (!followed || followed.includes(clan.id))
+  );
+}
+
+export function findClan(
+  clanName: string,
+  dungeon?: string,
+  guildId?: string | null
+): Clan | undefined {
+  const name = clanName.toLowerCase();
+  return getClans(dungeon, guildId).find(
+    (clan) => clan.name.toLowerCase() === name || clan.synonyms.includes(name)
+  );
+}
+
+export function clanChoices(
+  input: string,
+  dungeon?: string,
+  guildId?: string | null
+): { name: string; value: string }[] {
+  const search = input.toLowerCase();
+  return getClans(dungeon, guildId)
+    .filter(
+      (clan) =>
+        clan.name.toLowerCase().includes(search) ||
+        clan.synonyms.some((synonym) => synonym.startsWith(search))
+    )
+    .map((clan) => ({ name: clan.name, value: clan.synonyms[0] ?? clan.name }));
+}
+
+// Points a server at some of the managed clans, none of them, or "all" of them.
+// Returns what was wrong with the list if it couldn't be used.
+export async function setGuildClans(
+  databaseClientPool: Pool,
+  guildId: string,
+  clanNames: string[] | "all"
+): Promise<string | undefined> {
+  const names = clanNames === "all" ? [] : clanNames;
+  const chosen = names.map((name) => findClan(name));
+  const unknown = names.filter((_, index) => !chosen[index]);
+  if (unknown.length)
+    return `Clan${unknown.length > 1 ? "s" : ""} not recognised: ${unknown.join(", ")}.`;
+  await databaseClientPool.query(
+    "INSERT INTO guild_settings (guild_id, all_clans) VALUES ($1, $2) ON CONFLICT (guild_id) DO UPDATE SET all_clans = $2;",
+    [guildId, clanNames === "all"]
+  );
+  await databaseClientPool.query("DELETE FROM guild_clans WHERE guild_id = $1;", [guildId]);
+  for (let clan of chosen) {
+    await databaseClientPool.query(
+      "INSERT INTO guild_clans (guild_id, clan_id) VALUES ($1, $2) ON CONFLICT DO NOTHING;",
+      [guildId, clan!.id]
+    );
+  }
+  await syncClans(databaseClientPool);
+  return undefined;
+}
+
+function parseList(list: string | null): string[] | undefined {
+  if (list === null) return undefined;
+  return list
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry);
+}
+
+export function attachClanAdminCommands(discordClient: DiscordClient, databaseClientPool: Pool) {
+  discordClient.attachCommand(
+    "addclan",
+    [
+      {
+        name: "id",
+        description: "The clan's id in KoL.",
+        type: ApplicationCommandOptionType.Integer,
+        required: true,
+      },
+      {
+        name: "name",
+        description: "The clan's name.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+      },
+      {
+        name: "synonyms",
+        description: "Comma separated short names for the clan.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+      {
+        name: "dungeons",
+        description: `Comma separated dungeons the clan runs (${DUNGEON_TYPES.join(", ")}).`,
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+    ],
+    (interaction: CommandInteraction) => addClan(interaction, databaseClientPool),
+    "Start managing a clan."
+  );
+  discordClient.attachCommand(
+    "removeclan",
+    [
+      {
+        name: "clan",
+        description: "The clan to stop managing.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: (input: string) => clanChoices(input),
+      },
+    ],
+    (interaction: CommandInteraction) => removeClan(interaction, databaseClientPool),
+    "Stop managing a clan."
+  );
+  discordClient.attachCommand(
+    "editclan",
+    [
+      {
+        name: "clan",
+        description: "The clan to edit.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: (input: string) => clanChoices(input),
+      },
+      {
+        name: "name",
+        description: "The clan's new name.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+      {
+        name: "synonyms",
+        description: "Comma separated short names for the clan, replacing the current ones.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+      {
+        name: "dungeons",
+        description: `Comma separated dungeons the clan runs (${DUNGEON_TYPES.join(", ")}).`,
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+    ],
+    (interaction: CommandInteraction) => editClan(interaction, databaseClientPool),
+    "Rename a managed clan, or change its synonyms or dungeons."
+  );
+  discordClient.attachPortableCommand("clans", [], listClans, "List the clans OAF manages.");
+}
+
+function validateDungeons(dungeons: string[] | undefined): string | undefined {
+  const unknown = (dungeons ?? []).filter((dungeon) => !DUNGEON_TYPES.includes(dungeon));
+  if (!unknown.length) return undefined;
+  return `Unknown dungeon${unknown.length > 1 ? "s" : ""} ${unknown.join(
+    ", "
+  )}. Dungeons should be some of ${DUNGEON_TYPES.join(", ")}.`;
+}
+
+async function addClan(interaction: CommandInteraction, databaseClientPool: Pool): Promise<void> {
+  const id = interaction.options.getInteger("id", true);
+  const name = interaction.options.getString("name", true);
+  const synonyms = parseList(interaction.options.getString("synonyms")) ?? [];
+  const dungeons = parseList(interaction.options.getString("dungeons")) ?? [];
+  const problem = validateDungeons(dungeons);
+  if (problem) {
+    interaction.reply({ content: problem, ephemeral: true });
+    return;
+  }
+  if (clans.some((clan) => clan.id === id)) {
+    interaction.reply({ content: `Clan #${id} is already managed.`, ephemeral: true });
+    return;
+  }
+  await databaseClientPool.query(
+    "INSERT INTO clans (clan_id, name, synonyms, dungeons) VALUES ($1, $2, $3, $4);",
+    [id, name, synonyms, dungeons]
+  );
+  await syncClans(databaseClientPool);
+  interaction.reply(`Now managing ${name} (#${id}).`);
+}
+
+async function removeClan(
+  interaction: CommandInteraction,
+  databaseClientPool: Pool
+): Promise<void> {
+  const clan = findClan(interaction.options.getString("clan", true));
+  if (!clan) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  await databaseClientPool.query("DELETE FROM clans WHERE clan_id = $1;", [clan.id]);
+  await syncClans(databaseClientPool);
+  interaction.reply(`No longer managing ${clan.name} (#${clan.id}).`);
+}
+
+async function editClan(interaction: CommandInteraction, databaseClientPool: Pool): Promise<void> {
+  const clan = findClan(interaction.options.getString("clan", true));
+  if (!clan) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  const name = interaction.options.getString("name") ?? clan.name;
+  const synonyms = parseList(interaction.options.getString("synonyms")) ?? clan.synonyms;
+  const dungeons = parseList(interaction.options.getString("dungeons")) ?? clan.dungeons;
+  const problem = validateDungeons(dungeons);
+  if (problem) {
+    interaction.reply({ content: problem, ephemeral: true });
+    return;
+  }
+  await databaseClientPool.query(
+    "UPDATE clans SET name = $2, synonyms = $3, dungeons = $4 WHERE clan_id = $1;",
+    [clan.id, name, synonyms, dungeons]
+  );
+  await syncClans(databaseClientPool);
+  interaction.reply(
+    `Updated ${name} (#${clan.id}). Synonyms: ${synonyms.join(", ") || "none"}. Dungeons: ${
+      dungeons.join(", ") || "none"
+    }.`
+  );
+}
+
+function listClans(interaction: PortableInteraction): void {
+  interaction.reply({
+    embeds: [
+      {
+        title: "Managed clans",
+        description:
+          getClans(undefined, interaction.guildId)
+            .map(
+              (clan) =>
+                `**${clan.name}** (#${clan.id})\n    Synonyms: ${
+                  clan.synonyms.join(", ") || "none"
+                }\n    Dungeons: ${clan.dungeons.join(", ") || "none"}`
+            )
+            .join("\n") || "OAF isn't managing any clans.",
+      },
+    ],
+  });
+}
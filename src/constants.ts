@@ -489,19 +489,78 @@ export const ORB_RESPONSES: string[] = [
   "THERE IS AS YET INSUFFICIENT DATA FOR A MEANINGFUL ANSWER",
 ];
 
-export const KILLMATCHER = /([A-Za-z0-9\-\_ ]+)\s+\(#\d+\)\s+defeated\D+(\d+)/;
-export const SKILLMATCHER = /([A-Za-z0-9\-\_ ]+)\s+\(#\d+\)\s+used the machine/;
-export const ITEMMATCHER = /\[\[([^\[\]]*)\]\]/g;
+// Rollover happens at 20:30 Arizona time, which never observes daylight savings, so it's fixed in UTC
+export const ROLLOVER_TIME = { hour: 3, minute: 30 };
+// How long either side of rollover we expect the Kingdom to be unreachable
+export const ROLLOVER_WINDOW = { before: 5 * 60 * 1000, after: 25 * 60 * 1000 };
 
-export const ROLEMAP: Map<string, string> = new Map([
-  ["🇹", "741479573337800706"],
-  ["♀️", "741479514902757416"],
-  ["♂️", "741479366319538226"],
-  ["👂", "466622497991688202"],
-  ["🚫", "512522219574919179"],
-  ["✅", "754473984661258391"],
+// Which dungeon a raid log section belongs to, for pages that don't say so in a run header
+export const RAID_ZONES: Map<string, string> = new Map([
+  ["The Woods", "Dreadsylvania"],
+  ["The Village", "Dreadsylvania"],
+  ["The Castle", "Dreadsylvania"],
+  ["Sewers", "Hobopolis"],
+  ["Town Square", "Hobopolis"],
+  ["Burnbarrel Blvd.", "Hobopolis"],
+  ["Exposure Esplanade", "Hobopolis"],
+  ["The Heap", "Hobopolis"],
+  ["The Ancient Hobo Burial Ground", "Hobopolis"],
+  ["The Purple Light District", "Hobopolis"],
+  ["The Slime Tube", "The Slime Tube"],
+  ["The Haunted Sorority House", "The Haunted Sorority House"],
 ]);
 
+// The dungeon types a managed clan can be registered for
+export const DUNGEON_TYPES = ["dreadsylvania", "hobopolis", "slimetube", "sorority"];
+
+type HoboSideZone = {
+  name: string;
+  hobo: string;
+  boss: string;
+  bossMatcher: RegExp;
+  killsNeeded: number;
+};
+
+export const HOBOPOLIS_SIDE_ZONES: HoboSideZone[] = [
+  {
+    name: "Burnbarrel Blvd.",
+    hobo: "hot",
+    boss: "Ol' Scratch",
+    bossMatcher: /^defeated Ol' Scratch/,
+    killsNeeded: 500,
+  },
+  {
+    name: "Exposure Esplanade",
+    hobo: "cold",
+    boss: "Frosty",
+    bossMatcher: /^defeated Frosty/,
+    killsNeeded: 500,
+  },
+  {
+    name: "The Heap",
+    hobo: "stench",
+    boss: "Oscus",
+    bossMatcher: /^defeated Oscus/,
+    killsNeeded: 500,
+  },
+  {
+    name: "The Ancient Hobo Burial Ground",
+    hobo: "spooky",
+    boss: "Zombo",
+    bossMatcher: /^defeated Zombo/,
+    killsNeeded: 500,
+  },
+  {
+    name: "The Purple Light District",
+    hobo: "sleaze",
+    boss: "Chester",
+    bossMatcher: /^defeated Chester/,
+    killsNeeded: 500,
+  },
+];
+
+export const ITEMMATCHER = /\[\[([^\[\]]*)\]\]/g;
+
 export const PROJECT_ALIASES: Map<string, string> = new Map([
   ["garbo", "garbage-collector"],
   ["freecandy", "freecandydotexe"],
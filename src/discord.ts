@@ -9,17 +9,107 @@ import {
   PartialMessageReaction,
   Interaction,
   CommandInteraction,
+  AutocompleteInteraction,
+  ApplicationCommandOptionChoiceData,
+  MessageComponentInteraction,
+  ModalSubmitInteraction,
+  CommandInteractionOptionResolver,
+  InteractionReplyOptions,
+  WebhookEditMessageOptions,
 } from "discord.js";
-import { ITEMMATCHER, ROLEMAP } from "./constants";
+import { ITEMMATCHER } from "./constants";
 import { WikiSearcher } from "./wikisearch";
+import { KoLUnavailableError } from "./kolclient";
+import { getGuildSettings } from "./guildsettings";
+import { isAvailableIn, isPermitted } from "./permissions";
 import { SlashCommandBuilder } from "@discordjs/builders";
 import { ApplicationCommandOptionType, Routes } from "discord-api-types/v9";
 import { REST } from "@discordjs/rest";
 
-type Command = {
+const STILL_LOADING = "I'm still reading KoLmafia's data. Try again in a minute.";
+
+type AutocompleteHandler = (
+  input: string,
+  interaction: AutocompleteInteraction
+) => ApplicationCommandOptionChoiceData[] | Promise<ApplicationCommandOptionChoiceData[]>;
+
+type ComponentHandler<F extends string> = (
+  interaction: MessageComponentInteraction,
+  fields: Record<F, string>
+) => void | Promise<void>;
+
+type ModalHandler<F extends string> = (
+  interaction: ModalSubmitInteraction,
+  fields: Record<F, string>
+) => void | Promise<void>;
+
+type Routed = MessageComponentInteraction | ModalSubmitInteraction;
+
+// Says whether it dealt with the reaction, so nothing else needs to
+type ReactionHandler = (reaction: MessageReaction, user: User, added: boolean) => Promise<boolean>;
+
+// Lays out the custom id of a button, select menu or modal: a prefix naming what handles it, then
+// the fields it needs, colon separated. The prefix can have colons of its own, such as
+// "reminder:snooze", and the last field keeps any colons, so it can hold an emoji.
+export class ComponentId<F extends string> {
+  readonly prefix: string;
+  readonly fields: F[];
+
+  constructor(prefix: string, ...fields: F[]) {
+    this.prefix = prefix;
+    this.fields = fields;
+  }
+
+  encode(values: Record<F, string | number>): string {
+    const id = [this.prefix, ...this.fields.map((field) => values[field])].join(":");
+    // Discord refuses custom ids longer than this
+    if (id.length > 100) throw `Custom id ${id} is too long.`;
+    return id;
+  }
+
+  matches(customId: string): boolean {
+    return customId.startsWith(`${this.prefix}:`);
+  }
+
+  decode(customId: string): Record<F, string> | undefined {
+    if (!this.matches(customId)) return undefined;
+    const parts = customId.slice(this.prefix.length + 1).split(":");
+    if (parts.length < this.fields.length) return undefined;
+    const values = {} as Record<F, string>;
+    this.fields.forEach((field, index) => {
+      values[field] =
+        index === this.fields.length - 1 ? parts.slice(index).join(":") : parts[index];
+    });
+    return values;
+  }
+}
+
+// The parts of a CommandInteraction a command can use if it's also to be run from KoL chat,
+// where there's no server, channel or member behind it
+export type PortableInteraction = {
+  commandName: string;
+  user: { id: string; username: string };
+  guildId: string | null;
+  channelId: string | null;
+  deferred: boolean;
+  replied: boolean;
+  options: Pick<
+    CommandInteractionOptionResolver,
+    "getString" | "getInteger" | "getNumber" | "getBoolean"
+  >;
+  deferReply(): Promise<unknown>;
+  reply(response: string | InteractionReplyOptions): Promise<unknown>;
+  editReply(response: string | WebhookEditMessageOptions): Promise<unknown>;
+  followUp(response: string | InteractionReplyOptions): Promise<unknown>;
+};
+
+export type Command = {
   description: string;
   slashCommand: SlashCommandBuilder;
   execute: (interaction: CommandInteraction) => void;
+  // Only set for commands attached with attachPortableCommand
+  executePortable?: (interaction: PortableInteraction) => void;
+  autocompletes: Map<string, AutocompleteHandler>;
 };
 
 type Option = {
@@ -28,6 +118,7 @@ type Option = {
   type: ApplicationCommandOptionType;
   required: boolean;
   choices?: { name: string; value: string }[];
+  autocomplete?: AutocompleteHandler;
 };
 
 export class DiscordClient {
@@ -35,6 +126,15 @@ export class DiscordClient {
   private _wikiSearcher: WikiSearcher;
   private _discordToken: string;
   private _commands: Map<string, Command> = new Map();
+  private _components: Map<
+    ComponentId<string>,
+    (interaction: MessageComponentInteraction) => Promise<void>
+  > = new Map();
+  private _modals: Map<
+    ComponentId<string>,
+    (interaction: ModalSubmitInteraction) => Promise<void>
+  > = new Map();
+  private _reactionHandlers: ReactionHandler[] = [];
 
   constructor(wikiSearcher: WikiSearcher) {
     this._client = new Client({
@@ -68,6 +168,8 @@ export class DiscordClient {
     );
   }
 
+  // Commands are registered once for every server and DMs alike. Which ones a server can use, from
+  // its permissions, disabled commands and whether it's OAF's home, is checked as each one is run.
   async registerSlashCommands() {
     const rest = new REST({ version: "9" }).setToken(this._discordToken);
     const commandsToRegister = [];
@@ -80,6 +182,23 @@ export class DiscordClient {
     });
   }
 
+  // A handler that throws is taken to have owned the reaction, so nothing else acts on it as well
+  private async runReactionHandlers(
+    reaction: MessageReaction,
+    user: User,
+    added: boolean
+  ): Promise<boolean> {
+    for (const handler of this._reactionHandlers) {
+      try {
+        if (await handler(reaction, user, added)) return true;
+      } catch (error) {
+        console.log(error);
+        return true;
+      }
+    }
+    return false;
+  }
+
   async onReact(
     reaction: MessageReaction | PartialMessageReaction,
     user: User | PartialUser
@@ -93,10 +212,18 @@ export class DiscordClient {
         return;
       }
     }
-    if (!user.partial && reaction.message.channel.id === "741479910886866944") {
+    if (!user.partial && !reaction.partial) {
+      if (await this.runReactionHandlers(reaction, user, true)) return;
+    }
+    const settings = getGuildSettings(reaction.message.guildId);
+    if (
+      !user.partial &&
+      reaction.message.guildId &&
+      reaction.message.channel.id === settings.roleChannelId
+    ) {
       console.log(`Adding role ${reaction.emoji.name} to user ${user.username}`);
       const role = (await reaction.message.guild?.roles.cache)?.get(
-        ROLEMAP.get(reaction.emoji.name || "") || ""
+        settings.reactionRoles.get(reaction.emoji.name || "") || ""
       );
       const member = await reaction.message.guild?.members.cache.get(user.id);
       if (role && member) {
@@ -118,10 +245,18 @@ export class DiscordClient {
         return;
       }
     }
-    if (!user.partial && reaction.message.channel.id === "741479910886866944") {
+    if (!user.partial && !reaction.partial) {
+      if (await this.runReactionHandlers(reaction, user, false)) return;
+    }
+    const settings = getGuildSettings(reaction.message.guildId);
+    if (
+      !user.partial &&
+      reaction.message.guildId &&
+      reaction.message.channel.id === settings.roleChannelId
+    ) {
       console.log(`Removing role ${reaction.emoji.name} from user ${user.username}`);
       const role = (await reaction.message.guild?.roles.cache)?.get(
-        ROLEMAP.get(reaction.emoji.name || "") || ""
+        settings.reactionRoles.get(reaction.emoji.name || "") || ""
       );
       const member = await reaction.message.guild?.members.cache.get(user.id);
       if (role && member) {
@@ -149,21 +284,93 @@ export class DiscordClient {
     }
   }
 
+  async onAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    const focused = interaction.options.getFocused(true);
+    const handler = this._commands.get(interaction.commandName)?.autocompletes.get(focused.name);
+    try {
+      // Discord refuses more than 25 suggestions
+      await interaction.respond(
+        handler ? (await handler(String(focused.value), interaction)).slice(0, 25) : []
+      );
+    } catch (error) {
+      console.log(error);
+    }
+  }
+
+  // Components and modals are routed by the prefix of their custom id, the longest that fits
+  // winning. Ones with no handler are left alone, as they belong to a reply that's waiting on them.
+  async onRouted<T extends Routed>(
+    interaction: T,
+    routes: Map<ComponentId<string>, (interaction: T) => Promise<void>>
+  ): Promise<void> {
+    const route = [...routes.keys()]
+      .filter((id) => id.matches(interaction.customId))
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+    const handler = route && routes.get(route);
+    if (!handler) return;
+    try {
+      await handler(interaction);
+    } catch (error) {
+      console.log(error);
+      if (!interaction.replied && !interaction.deferred) {
+        await interaction.reply({
+          content: "OAF recovered from a crash trying to process that. Please tell Scotch or Phill",
+          ephemeral: true,
+        });
+      }
+    }
+  }
+
+  // Turns someone away from a command, or a button or form belonging to one, they can't use here
+  private async refuse(
+    interaction: CommandInteraction | Routed,
+    command: string
+  ): Promise<boolean> {
+    if (!isAvailableIn(interaction.guildId, command)) {
+      await interaction.reply({
+        content: `/${command} can only be used in OAF's home server.`,
+        ephemeral: true,
+      });
+      return true;
+    }
+    if (!isPermitted(interaction, command)) {
+      await interaction.reply({
+        content: `You don't have permission to use /${command} here.`,
+        ephemeral: true,
+      });
+      return true;
+    }
+    if (getGuildSettings(interaction.guildId).disabledCommands.includes(command)) {
+      await interaction.reply({
+        content: `/${command} is turned off in this server.`,
+        ephemeral: true,
+      });
+      return true;
+    }
+    return false;
+  }
+
   async onCommand(interaction: Interaction): Promise<void> {
+    if (interaction.isAutocomplete()) return this.onAutocomplete(interaction);
+    if (interaction.isMessageComponent()) return this.onRouted(interaction, this._components);
+    if (interaction.isModalSubmit()) return this.onRouted(interaction, this._modals);
     if (!interaction.isCommand()) return;
+    if (await this.refuse(interaction, interaction.commandName)) return;
     const command = this._commands.get(interaction.commandName);
     try {
       if (command) await command.execute(interaction);
       else interaction.reply(`Command not recognised. Something has gone wrong here.`);
     } catch (error) {
-      console.log(error);
-      await (interaction.replied
-        ? interaction.followUp(
-            "OAF recovered from a crash trying to process that command. Please tell Scotch or Phill"
-          )
-        : interaction.reply(
-            "OAF recovered from a crash trying to process that command. Please tell Scotch or Phill"
-          ));
+      const message =
+        error instanceof KoLUnavailableError
+          ? error.message
+          : "OAF recovered from a crash trying to process that command. Please tell Scotch or Phill";
+      if (!(error instanceof KoLUnavailableError)) console.log(error);
+      await (interaction.deferred
+        ? interaction.editReply(message)
+        : interaction.replied
+        ? interaction.followUp(message)
+        : interaction.reply(message));
     }
   }
 
@@ -171,6 +378,44 @@ export class DiscordClient {
     return this._client;
   }
 
+  command(name: string): Command | undefined {
+    return this._commands.get(name.toLowerCase());
+  }
+
+  // Buttons and select menus alike; a handler for a select menu reads its picks off the interaction.
+  // One that belongs to a command can only be used by those who could run that command here.
+  attachComponent<F extends string>(
+    id: ComponentId<F>,
+    handler: ComponentHandler<F>,
+    command?: string
+  ): void {
+    this._components.set(id, async (interaction) => {
+      const fields = id.decode(interaction.customId);
+      if (!fields || (command && (await this.refuse(interaction, command)))) return;
+      await handler(interaction, fields);
+    });
+  }
+
+  attachModal<F extends string>(
+    id: ComponentId<F>,
+    handler: ModalHandler<F>,
+    command?: string
+  ): void {
+    this._modals.set(id, async (interaction) => {
+      const fields = id.decode(interaction.customId);
+      if (!fields || (command && (await this.refuse(interaction, command)))) return;
+      await handler(interaction, fields);
+    });
+  }
+
+  attachReactionHandler(handler: ReactionHandler): void {
+    this._reactionHandlers.push(handler);
+  }
+
+  commandNames(): string[] {
+    return [...this._commands.keys()];
+  }
+
   attachCommand(
     command: string,
     args: Option[],
@@ -178,13 +423,16 @@ export class DiscordClient {
     description: string = ""
   ): void {
     const slashCommand = new SlashCommandBuilder().setName(command).setDescription(description);
+    const autocompletes: Map<string, AutocompleteHandler> = new Map();
     for (let arg of args) {
-      const builder = (item: any) =>
-        item
-          .setName(arg.name)
-          .setDescription(arg.description)
-          .setRequired(arg.required)
-          .addChoices(...(arg.choices || []));
+      const builder = (item: any) => {
+        item.setName(arg.name).setDescription(arg.description).setRequired(arg.required);
+        // Discord won't accept an option that has both fixed choices and autocomplete
+        if (arg.autocomplete) item.setAutocomplete(true);
+        else if (arg.choices) item.addChoices(...arg.choices);
+        return item;
+      };
+      if (arg.autocomplete) autocompletes.set(arg.name, arg.autocomplete);
 
       switch (arg.type) {
         case ApplicationCommandOptionType.String:
@@ -193,6 +441,9 @@ export class DiscordClient {
         case ApplicationCommandOptionType.Integer:
           slashCommand.addIntegerOption(builder);
           break;
+        case ApplicationCommandOptionType.Boolean:
+          slashCommand.addBooleanOption(builder);
+          break;
         case ApplicationCommandOptionType.User:
           slashCommand.addUserOption(builder);
           break;
@@ -220,10 +471,23 @@ export class DiscordClient {
       description: description,
       slashCommand: slashCommand,
       execute: functionToCall,
+      autocompletes: autocompletes,
     });
   }
 
-  async pizzaSearch(interaction: CommandInteraction): Promise<void> {
+  // For commands that work from KoL chat as well as Discord, and so only get a PortableInteraction
+  attachPortableCommand(
+    command: string,
+    args: Option[],
+    functionToCall: (interaction: PortableInteraction) => void,
+    description: string = ""
+  ): void {
+    this.attachCommand(command, args, functionToCall, description);
+    const attached = this._commands.get(command.toLowerCase());
+    if (attached) attached.executePortable = functionToCall;
+  }
+
+  async pizzaSearch(interaction: PortableInteraction): Promise<void> {
     const letters = interaction.options.getString("letters", true);
     if (letters.length < 1 || letters.length > 4) {
       await interaction.reply({
@@ -235,7 +499,7 @@ export class DiscordClient {
     await interaction.deferReply();
     await interaction.editReply({
       content: null,
-      embeds: [await this._wikiSearcher.getPizzaEmbed(letters.toLowerCase())],
+      embeds: [await this._wikiSearcher.getPizzaEmbed(letters.toLowerCase(), interaction.guildId)],
       allowedMentions: {
         parse: [],
       },
@@ -255,7 +519,18 @@ export class DiscordClient {
       await searchingMessage.edit("Need something to search for.");
       return;
     }
-    const embed = await this._wikiSearcher.getEmbed(item);
+    if (this._wikiSearcher.stillLoading(item)) {
+      await searchingMessage.edit(STILL_LOADING);
+      return;
+    }
+    let embed;
+    try {
+      embed = await this._wikiSearcher.getEmbed(item, message.guildId);
+    } catch (error) {
+      if (!(error instanceof KoLUnavailableError)) throw error;
+      await searchingMessage.edit(error.message);
+      return;
+    }
     if (embed) {
       searchingMessage.edit({
         content: null,
@@ -276,10 +551,14 @@ export class DiscordClient {
     }
   }
 
-  async wikiSearch(interaction: CommandInteraction): Promise<void> {
+  async wikiSearch(interaction: PortableInteraction): Promise<void> {
     const item = interaction.options.getString("term", true);
+    if (this._wikiSearcher.stillLoading(item)) {
+      await interaction.reply({ content: STILL_LOADING, ephemeral: true });
+      return;
+    }
     await interaction.deferReply();
-    const embed = await this._wikiSearcher.getEmbed(item);
+    const embed = await this._wikiSearcher.getEmbed(item, interaction.guildId);
     if (embed) {
       interaction.editReply({
         content: null,
@@ -298,7 +577,7 @@ export class DiscordClient {
     }
   }
 
-  async mafiawikiSearch(interaction: CommandInteraction): Promise<void> {
+  async mafiawikiSearch(interaction: PortableInteraction): Promise<void> {
     const item = interaction.options.getString("term", true);
     await interaction.deferReply();
     const googleSearchResponse = await axios(`https://www.googleapis.com/customsearch/v1`, {
@@ -338,7 +617,7 @@ export class DiscordClient {
   }
 
   attachMetaBotCommands() {
-    this.attachCommand(
+    this.attachPortableCommand(
       "pizza",
       [
         {
@@ -348,10 +627,10 @@ export class DiscordClient {
           required: true,
         },
       ],
-      async (interaction: CommandInteraction) => await this.pizzaSearch(interaction),
+      async (interaction: PortableInteraction) => await this.pizzaSearch(interaction),
       "Find what effects a diabolic pizza with the given letters can grant you."
     );
-    this.attachCommand(
+    this.attachPortableCommand(
       "wiki",
       [
         {
@@ -359,12 +638,13 @@ export class DiscordClient {
           description: "The term to search for in the wiki.",
           type: ApplicationCommandOptionType.String,
           required: true,
+          autocomplete: (input: string) => this._wikiSearcher.thingChoices(input),
         },
       ],
-      (interaction: CommandInteraction) => this.wikiSearch(interaction),
+      (interaction: PortableInteraction) => this.wikiSearch(interaction),
       "Search the KoL wiki for the given term."
     );
-    this.attachCommand(
+    this.attachPortableCommand(
       "mafia",
       [
         {
@@ -374,7 +654,7 @@ export class DiscordClient {
           required: true,
         },
       ],
-      async (interaction: CommandInteraction) => await this.mafiawikiSearch(interaction),
+      async (interaction: PortableInteraction) => await this.mafiawikiSearch(interaction),
       "Search the KoLmafia wiki for the given term."
     );
     this.attachCommand(
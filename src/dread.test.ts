@@ -0,0 +1,71 @@
+import { strict as assert } from "assert";
+import { readFileSync } from "fs";
+import { test } from "node:test";
+import { join } from "path";
+import {
+  dreadRunEnded,
+  extractDreadCastle,
+  extractDreadForest,
+  extractDreadOverview,
+  extractDreadParticipation,
+  extractDreadVillage,
+} from "./dread";
+import { parseRaidLog } from "./raidlogparser";
+
+const raidLog = (page: string) =>
+  parseRaidLog(readFileSync(join(__dirname, "..", "fixtures", "kingdom", `${page}.html`), "utf-8"));
+
+test("works out the Dread overview", () => {
+  assert.deepEqual(extractDreadOverview(raidLog("clan_raidlogs")), {
+    forest: 0,
+    village: 188,
+    castle: 645,
+    skills: 2,
+    bosses: ["xwerewolf", "unknown", "unknown"],
+    capacitor: true,
+  });
+});
+
+test("works out what's been done in each Dread zone", () => {
+  const current = raidLog("clan_raidlogs");
+  assert.deepEqual(extractDreadForest(current), {
+    attic: true,
+    watchtower: true,
+    auditor: true,
+    musicbox: false,
+    kiwi: false,
+    amber: false,
+  });
+  assert.deepEqual(extractDreadVillage(current), {
+    schoolhouse: true,
+    suite: false,
+    hanging: true,
+  });
+  assert.deepEqual(extractDreadCastle(current), {
+    lab: true,
+    roast: true,
+    banana: false,
+    agaricus: false,
+  });
+});
+
+test("counts each player's Dread kills and skills", () => {
+  assert.deepEqual(extractDreadParticipation(raidLog("clan_raidlogs")), [
+    { player: "Captain Scotch", playerId: 1234567, kills: 502, skills: 0 },
+    { player: "Phillammon", playerId: 1605123, kills: 598, skills: 1 },
+    { player: "Gausie", playerId: 1197090, kills: 1067, skills: 0 },
+  ]);
+  assert.deepEqual(extractDreadParticipation(raidLog("clan_viewraidlog")), [
+    { player: "Gausie", playerId: 1197090, kills: 1000, skills: 1 },
+    { player: "Captain Scotch", playerId: 1234567, kills: 1000, skills: 1 },
+    { player: "Phillammon", playerId: 1605123, kills: 1000, skills: 1 },
+  ]);
+});
+
+test("knows when a finished Dread run ended", () => {
+  assert.equal(dreadRunEnded(raidLog("clan_raidlogs")), undefined);
+  assert.equal(
+    dreadRunEnded(raidLog("clan_viewraidlog"))?.getTime(),
+    new Date("December 13, 2022").getTime()
+  );
+});
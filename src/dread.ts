@@ -0,0 +1,192 @@
+import { eventsFor, RaidLog, RaidLogEvent } from "./raidlogparser";
+
+export type DreadStatus = {
+  forest: number;
+  village: number;
+  castle: number;
+  skills: number;
+  bosses: string[];
+  capacitor: boolean;
+};
+
+export type DreadForestStatus = {
+  attic: boolean;
+  watchtower: boolean;
+  auditor: boolean;
+  musicbox: boolean;
+  kiwi: boolean;
+  amber: boolean;
+};
+
+export type DreadVillageStatus = {
+  schoolhouse: boolean;
+  suite: boolean;
+  hanging: boolean;
+};
+
+export type DreadCastleStatus = {
+  lab: boolean;
+  roast: boolean;
+  banana: boolean;
+  agaricus: boolean;
+};
+
+export type DreadParticipation = {
+  player: string;
+  playerId: number;
+  kills: number;
+  skills: number;
+};
+
+export type DetailedDreadStatus = {
+  overview: DreadStatus;
+  forest: DreadForestStatus;
+  village: DreadVillageStatus;
+  castle: DreadCastleStatus;
+};
+
+function happened(events: RaidLogEvent[], ...actions: RegExp[]): boolean {
+  return events.some((event) => actions.some((action) => action.test(event.action)));
+}
+
+export function dreadEvents(raidLog: RaidLog): RaidLogEvent[] {
+  return eventsFor(raidLog, "Dreadsylvania");
+}
+
+export function isDreadKill(event: RaidLogEvent): boolean {
+  return event.action.startsWith("defeated ");
+}
+
+export function isDreadSkill(event: RaidLogEvent): boolean {
+  return event.action.startsWith("used The Machine");
+}
+
+export function extractDreadParticipation(raidLog: RaidLog): DreadParticipation[] {
+  const participation: Map<number, DreadParticipation> = new Map();
+  for (const event of dreadEvents(raidLog)) {
+    const kills = isDreadKill(event) ? event.count : 0;
+    const skills = isDreadSkill(event) ? 1 : 0;
+    if (!kills && !skills) continue;
+    const entry = participation.get(event.playerId) || {
+      player: event.player,
+      playerId: event.playerId,
+      kills: 0,
+      skills: 0,
+    };
+    entry.kills += kills;
+    entry.skills += skills;
+    participation.set(event.playerId, entry);
+  }
+  return [...participation.values()];
+}
+
+// Run headers give a period like "December 1, 2022 - December 13, 2022"
+export function dreadRunEnded(raidLog: RaidLog): Date | undefined {
+  const period = raidLog.runs.find((run) => run.dungeon === "Dreadsylvania")?.period;
+  const ended = new Date(period?.split(" - ").pop() ?? "");
+  return isNaN(ended.getTime()) ? undefined : ended;
+}
+
+export function extractDreadOverview(raidLog: RaidLog): DreadStatus {
+  const events = dreadEvents(raidLog);
+
+  type MonsterData = {
+    plural: string;
+    kills: number;
+    banishes: number;
+    regex: RegExp;
+  };
+
+  const monster = (plural: string, regex: RegExp): MonsterData => ({
+    plural: plural,
+    kills: 0,
+    banishes: 0,
+    regex: regex,
+  });
+
+  const monsters: Map<string, MonsterData> = new Map([
+    ["bugbear", monster("bugbears", /^defeated Falls-From-Sky/)],
+    ["werewolf", monster("werewolves", /^defeated The Great Wolf of the Air/)],
+    ["ghost", monster("ghosts", /^defeated Mayor Ghost/)],
+    ["zombie", monster("zombies", /^defeated the Zombie Homeowners' Association/)],
+    ["vampire", monster("vampires", /^defeated Count Drunkula/)],
+    ["skeleton", monster("skeletons", /^defeated The Unkillable Skeleton/)],
+  ]);
+
+  const pairs = [
+    ["bugbear", "werewolf"],
+    ["ghost", "zombie"],
+    ["vampire", "skeleton"],
+  ];
+
+  for (const [name, data] of monsters.entries()) {
+    const killAction = new RegExp(`^defeated (.* )?${name}$`, "i");
+    const banishAction = new RegExp(`^drove some (.* )?${data.plural} out of the`, "i");
+    for (const event of events) {
+      if (killAction.test(event.action)) data.kills += event.count;
+      if (banishAction.test(event.action)) data.banishes++;
+    }
+  }
+  const bosses: string[] = [];
+  for (let [monster1, monster2] of pairs) {
+    const monster1data = monsters.get(monster1) as MonsterData;
+    const monster2data = monsters.get(monster2) as MonsterData;
+    if (monster1data.kills > monster2data.kills + 50) {
+      monster2data.banishes++;
+    } else if (monster2data.kills > monster1data.kills + 50) {
+      monster1data.banishes++;
+    }
+    //ELSE IF CHAIN BREAKS HERE
+    if (happened(events, monster1data.regex)) {
+      bosses.push(`x${monster1}`);
+    } else if (happened(events, monster2data.regex)) {
+      bosses.push(`x${monster2}`);
+    } else if (monster1data.banishes > monster2data.banishes) {
+      bosses.push(monster2);
+    } else if (monster2data.banishes > monster1data.banishes) {
+      bosses.push(monster1);
+    } else {
+      bosses.push("unknown");
+    }
+  }
+  const skills = events.filter(isDreadSkill).length;
+  return {
+    forest: 1000 - (raidLog.kills.get("Forest") ?? 0),
+    village: 1000 - (raidLog.kills.get("Village") ?? 0),
+    castle: 1000 - (raidLog.kills.get("Castle") ?? 0),
+    skills: 3 - skills,
+    bosses: bosses,
+    capacitor: happened(events, /^fixed The Machine/),
+  };
+}
+
+export function extractDreadForest(raidLog: RaidLog): DreadForestStatus {
+  const events = dreadEvents(raidLog);
+  return {
+    attic: happened(events, /unlocked the attic of the cabin/),
+    watchtower: happened(events, /unlocked the fire watchtower/),
+    auditor: happened(events, /got a Dreadsylvanian auditor's badge/),
+    musicbox: happened(events, /made the forest less spooky/),
+    kiwi: happened(events, /knocked some fruit loose/, /wasted some fruit/),
+    amber: happened(events, /acquired a chunk of moon-amber/),
+  };
+}
+
+export function extractDreadVillage(raidLog: RaidLog): DreadVillageStatus {
+  const events = dreadEvents(raidLog);
+  return {
+    schoolhouse: happened(events, /unlocked the schoolhouse/),
+    suite: happened(events, /unlocked the master suite/),
+    hanging: happened(events, /hanged/, /hung/),
+  };
+}
+
+export function extractDreadCastle(raidLog: RaidLog): DreadCastleStatus {
+  const events = dreadEvents(raidLog);
+  return {
+    lab: happened(events, /unlocked the lab/),
+    roast: happened(events, /got some roast beast/),
+    banana: happened(events, /got a wax banana/),
+    agaricus: happened(events, /got some stinking agaric/),
+  };
+}
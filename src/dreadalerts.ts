@@ -0,0 +1,91 @@
+import { Client, TextBasedChannel } from "discord.js";
+import { getClans } from "./clans";
+import { DREAD_BOSS_MAPPINGS } from "./constants";
+import { DreadStatus } from "./dread";
+import { alertChannelIds } from "./guildsettings";
+import { KOLClient, KoLUnavailableError } from "./kolclient";
+
+// How often to look over every Dreadsylvania instance
+const POLL_INTERVAL = 10 * 60 * 1000;
+// How few kills a zone needs to have left before we warn that it's nearly done
+const NEARLY_DONE = 100;
+const ZONES = ["forest", "village", "castle"] as const;
+const ZONE_NAMES = { forest: "Forest", village: "Village", castle: "Castle" };
+
+// Compares one look at an instance with the last and describes anything worth shouting about
+export function dreadAlerts(clanName: string, before: DreadStatus, after: DreadStatus): string[] {
+  const alerts: string[] = [];
+  ZONES.forEach((zone, index) => {
+    const boss = DREAD_BOSS_MAPPINGS.get(after.bosses[index]) ?? "the boss";
+    if (before[zone] > NEARLY_DONE && after[zone] <= NEARLY_DONE && after[zone] > 0) {
+      alerts.push(`The ${ZONE_NAMES[zone]} in ${clanName} is down to ${after[zone]} kills.`);
+    }
+    if (before[zone] > 0 && after[zone] === 0 && !after.bosses[index].startsWith("x")) {
+      alerts.push(`${boss} is ready to fight in the ${ZONE_NAMES[zone]} in ${clanName}.`);
+    }
+  });
+  if (!before.capacitor && after.capacitor) {
+    alerts.push(`The Machine has been fixed in ${clanName}.`);
+  }
+  if (after.capacitor && before.skills > 0 && after.skills <= 0) {
+    alerts.push(`All three skills have been taken from the Machine in ${clanName}.`);
+  }
+  return alerts;
+}
+
+// Watches every Dreadsylvania clan and posts to the channels following it when something changes that
+// people act on. Servers pick their channel with /config; the one given here hears about every clan.
+export class DreadWatcher {
+  private _kolClient: KOLClient;
+  private _discordClient: Client;
+  private _channelId?: string;
+  private _channels: Map<string, TextBasedChannel> = new Map();
+  private _lastSeen: Map<number, DreadStatus> = new Map();
+
+  constructor(kolClient: KOLClient, discordClient: Client, channelId?: string) {
+    this._kolClient = kolClient;
+    this._discordClient = discordClient;
+    this._channelId = channelId;
+  }
+
+  start(): void {
+    setInterval(() => this.check(), POLL_INTERVAL);
+    this.check();
+  }
+
+  private async channel(channelId: string): Promise<TextBasedChannel | undefined> {
+    if (!this._channels.has(channelId)) {
+      const channel = await this._discordClient.channels.fetch(channelId);
+      if (channel?.isText()) this._channels.set(channelId, channel);
+    }
+    return this._channels.get(channelId);
+  }
+
+  private async check(): Promise<void> {
+    for (const clan of getClans("dreadsylvania")) {
+      const channelIds = alertChannelIds("dread", clan.id);
+      if (this._channelId) channelIds.push(this._channelId);
+      // Nobody is listening, so there's no need to trouble the Kingdom
+      if (!channelIds.length) continue;
+      let status: DreadStatus;
+      try {
+        status = await this._kolClient.getDreadStatusOverview(clan.id);
+      } catch (error) {
+        // We'll catch up with anything that happened once the Kingdom is back
+        if (error instanceof KoLUnavailableError) return;
+        console.log(`Couldn't check on Dreadsylvania in ${clan.name}`, error);
+        continue;
+      }
+      const before = this._lastSeen.get(clan.id);
+      this._lastSeen.set(clan.id, status);
+      // The first look after starting up has nothing to compare against, so it stays quiet
+      if (!before) continue;
+      const alerts = dreadAlerts(clan.name, before, status);
+      if (!alerts.length) continue;
+      for (const channelId of new Set(channelIds)) {
+        const channel = await this.channel(channelId).catch(() => undefined);
+        await channel?.send({ content: alerts.join("\n"), allowedMentions: { parse: [] } });
+      }
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { FakeKingdom } from "./fakekingdom";
+
+const COOKIE = "PHPSESSID=fakekingdom";
+
+test("serves the fixture for a page, preferring one named after a parameter", async () => {
+  const transport = new FakeKingdom().transport();
+  const log = await transport("clan_oldraidlogs.php", {
+    method: "GET",
+    cookie: COOKIE,
+    params: { startrow: 10 },
+  });
+  const firstPage = await transport("clan_oldraidlogs.php", { method: "GET", cookie: COOKIE });
+  assert.equal(log.status, 200);
+  assert.notEqual(log.data, firstPage.data);
+});
+
+test("reads posted forms as well as query strings", async () => {
+  const kingdom = new FakeKingdom();
+  const response = await kingdom.transport()("sendmessage.php", {
+    method: "POST",
+    cookie: COOKIE,
+    params: { action: "send" },
+    data: new URLSearchParams({ towho: "Gausie", message: "hello", sendmeat: "5" }),
+  });
+  assert.match(response.data, /Message sent\./);
+  assert.deepEqual(kingdom.sentKmails, [
+    { recipient: "Gausie", message: "hello", items: [], meat: 5 },
+  ]);
+});
+
+test("doesn't build fixture names out of paths", async () => {
+  const transport = new FakeKingdom().transport();
+  // Either of these would otherwise be served the repository's package.json
+  const escaped = await transport("../../package", { method: "GET", cookie: COOKIE });
+  assert.equal(escaped.status, 404);
+  const fallback = await transport("clan_oldraidlogs.php", {
+    method: "GET",
+    cookie: COOKIE,
+    params: { startrow: "../../../../package" },
+  });
+  const firstPage = await transport("clan_oldraidlogs.php", { method: "GET", cookie: COOKIE });
+  assert.equal(fallback.data, firstPage.data);
+});
@@ -0,0 +1,229 @@
+import { existsSync, readFileSync } from "fs";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { join } from "path";
+import { KOLRequest, KOLResponse, KOLTransport } from "./kolclient";
+
+const SESSION_COOKIE = "PHPSESSID=fakekingdom";
+const LOGGED_OUT_PAGE = "<html><head><title>The Kingdom of Loathing</title></head></html>";
+
+export type SentKmail = {
+  recipient: string;
+  message: string;
+  items: { id: number; quantity: number }[];
+  meat: number;
+};
+
+// A stand-in for www.kingdomofloathing.com which serves canned pages out of a fixture directory.
+// A page is looked up as "<page>.<param>-<value>.html" for each query parameter, then "<page>.html".
+// Kmail and chat are the exceptions: the inbox starts out as api.what-kmail.json and chat as
+// newchatmessages.json, and deleting, sending or saying things changes what later requests see,
+// so flows like verification or the chat relay can be run end to end.
+export class FakeKingdom {
+  private _fixtureDirectory: string;
+  private _pwdhash = "fakepwdhash";
+  private _inbox?: any[];
+  private _sentKmails: SentKmail[] = [];
+  private _chat?: any[];
+
+  constructor(fixtureDirectory: string = join(__dirname, "..", "fixtures", "kingdom")) {
+    this._fixtureDirectory = fixtureDirectory;
+  }
+
+  respond(path: string, params: URLSearchParams, cookie: string): KOLResponse {
+    const page = path.replace(/^\//, "").replace(/\.php$/, "");
+    if (page === "login") {
+      return {
+        status: 302,
+        headers: { "set-cookie": [`${SESSION_COOKIE}; path=/`], location: "main.php" },
+        data: "",
+      };
+    }
+    if (!cookie.includes(SESSION_COOKIE)) {
+      return { status: 200, headers: { "content-type": "text/html" }, data: LOGGED_OUT_PAGE };
+    }
+    if (page === "api" && params.get("what") === "status") {
+      return {
+        status: 200,
+        headers: { "content-type": "application/json" },
+        data: { name: process.env.KOL_USER || "OAF", playerid: "1", pwd: this._pwdhash },
+      };
+    }
+    if (page === "api" && params.get("what") === "kmail") {
+      return { status: 200, headers: { "content-type": "application/json" }, data: this.inbox() };
+    }
+    if (page === "messages" && params.get("the_action") === "delete") {
+      return this.html(`<center>${this.deleteKmails(params)} messages deleted.</center>`);
+    }
+    if (page === "sendmessage" && params.get("action") === "send") {
+      return this.html(this.sendKmail(params));
+    }
+    if (page === "newchatmessages") {
+      const since = parseInt(params.get("lasttime") || "0");
+      const messages = this.chat().filter((message) => parseInt(message.time) > since);
+      const last = Math.max(since, ...messages.map((message) => parseInt(message.time)));
+      return {
+        status: 200,
+        headers: { "content-type": "application/json" },
+        data: { msgs: messages, last: String(last), delay: 3000 },
+      };
+    }
+    if (page === "submitnewchat") {
+      const graf = params.get("graf") || "";
+      const clanMessage = /^\/clan (.*)$/.exec(graf);
+      if (clanMessage) this.say(process.env.KOL_USER || "OAF", 1, clanMessage[1]);
+      return {
+        status: 200,
+        headers: { "content-type": "application/json" },
+        data: { output: "", msgs: [] },
+      };
+    }
+    const fixture = this.findFixture(page, params);
+    if (!fixture) return { status: 404, headers: {}, data: "" };
+    const contents = readFileSync(fixture, "utf-8");
+    return fixture.endsWith(".json")
+      ? { status: 200, headers: { "content-type": "application/json" }, data: JSON.parse(contents) }
+      : { status: 200, headers: { "content-type": "text/html" }, data: contents };
+  }
+
+  get sentKmails(): SentKmail[] {
+    return this._sentKmails;
+  }
+
+  // Puts a kmail in OAF's inbox, as if a player had just sent it
+  receiveKmail(senderId: number, senderName: string, message: string): void {
+    const inbox = this.inbox();
+    inbox.push({
+      id: String(Math.max(0, ...inbox.map((kmail) => parseInt(kmail.id))) + 1),
+      type: "normal",
+      fromid: String(senderId),
+      fromname: senderName,
+      azunixtime: String(Math.floor(Date.now() / 1000)),
+      message: message,
+      localtime: new Date().toLocaleString(),
+    });
+  }
+
+  // Has a player say something in clan chat
+  say(sender: string, senderId: number, message: string): void {
+    const chat = this.chat();
+    const lastTime = Math.max(0, ...chat.map((message) => parseInt(message.time)));
+    chat.push({
+      msg: message,
+      type: "public",
+      mid: String(chat.length + 1),
+      who: { name: sender, id: String(senderId), color: "black" },
+      format: "0",
+      channel: "clan",
+      channelcolor: "green",
+      // Chat times only have a resolution of seconds, so keep them strictly increasing
+      time: String(Math.max(lastTime + 1, Math.floor(Date.now() / 1000))),
+    });
+  }
+
+  // A form posted in the request body counts the same as parameters in its query string
+  transport(): KOLTransport {
+    return async (path: string, request: KOLRequest) => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(request.params || {})) {
+        if (value !== undefined) params.append(key, String(value));
+      }
+      for (const [key, value] of request.data?.entries() ?? []) params.append(key, value);
+      return this.respond(path, params, request.cookie || "");
+    };
+  }
+
+  listen(port: number): Server {
+    const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+      const url = new URL(request.url || "/", "http://localhost");
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        const params = new URLSearchParams(url.searchParams);
+        for (const [key, value] of new URLSearchParams(body).entries()) params.append(key, value);
+        const result = this.respond(url.pathname, params, request.headers.cookie || "");
+        response.writeHead(result.status, result.headers);
+        response.end(typeof result.data === "string" ? result.data : JSON.stringify(result.data));
+      });
+    });
+    server.listen(port);
+    return server;
+  }
+
+  private html(page: string): KOLResponse {
+    return {
+      status: 200,
+      headers: { "content-type": "text/html" },
+      data: `<html><body>${page}</body></html>`,
+    };
+  }
+
+  private inbox(): any[] {
+    if (!this._inbox) {
+      const fixture = join(this._fixtureDirectory, "api.what-kmail.json");
+      this._inbox = existsSync(fixture) ? JSON.parse(readFileSync(fixture, "utf-8")) : [];
+    }
+    return this._inbox as any[];
+  }
+
+  private chat(): any[] {
+    if (!this._chat) {
+      const fixture = join(this._fixtureDirectory, "newchatmessages.json");
+      this._chat = existsSync(fixture) ? JSON.parse(readFileSync(fixture, "utf-8")).msgs : [];
+    }
+    return this._chat as any[];
+  }
+
+  private deleteKmails(params: URLSearchParams): number {
+    const selected = [...params.keys()]
+      .filter((key) => /^sel\d+$/.test(key))
+      .map((key) => key.slice(3));
+    const before = this.inbox().length;
+    this._inbox = this.inbox().filter((kmail) => !selected.includes(String(kmail.id)));
+    return before - this._inbox.length;
+  }
+
+  private sendKmail(params: URLSearchParams): string {
+    const recipient = params.get("towho") || "";
+    if (!recipient) return "<center>I don't know who you want to send that to.</center>";
+    const items = [];
+    for (let index = 1; params.has(`whichitem${index}`); index++) {
+      items.push({
+        id: parseInt(params.get(`whichitem${index}`) || "0"),
+        quantity: parseInt(params.get(`howmany${index}`) || "1"),
+      });
+    }
+    this._sentKmails.push({
+      recipient: recipient,
+      message: params.get("message") || "",
+      items: items,
+      meat: parseInt(params.get("sendmeat") || "0"),
+    });
+    return "<center>Message sent.</center>";
+  }
+
+  // Only plain names are turned into file names, so nothing a request says can reach outside the
+  // fixture directory
+  private findFixture(page: string, params: URLSearchParams): string | undefined {
+    const plain = /^[\w-]+$/;
+    if (!plain.test(page)) return undefined;
+    const candidates = [];
+    for (const [key, value] of params.entries()) {
+      if (key === "pwd" || !plain.test(key) || !plain.test(value)) continue;
+      candidates.push(`${page}.${key}-${value}`);
+    }
+    candidates.push(page);
+    for (const candidate of candidates) {
+      for (const extension of [".html", ".json"]) {
+        const file = join(this._fixtureDirectory, `${candidate}${extension}`);
+        if (existsSync(file)) return file;
+      }
+    }
+    return undefined;
+  }
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.FAKE_KINGDOM_PORT || "8008");
+  new FakeKingdom(process.argv[2]).listen(port);
+  console.log(`Fake Kingdom listening on http://localhost:${port}`);
+}
@@ -0,0 +1,295 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import { CommandInteraction, Guild, MessageEmbed } from "discord.js";
+import { Pool } from "pg";
+import { followsEveryClan, getClans, setGuildClans, syncClans } from "./clans";
+import { DiscordClient } from "./discord";
+import { roleProblem } from "./permissions";
+
+export type GuildSettings = {
+  guildId: string;
+  // The channel where reacting to a message hands out the role mapped to that emoji
+  roleChannelId?: string;
+  dreadAlertChannelId?: string;
+  stashAlertChannelId?: string;
+  footer?: string;
+  disabledCommands: string[];
+  reactionRoles: Map<string, string>;
+};
+
+// Settings stored under this guild are copied into each server the first time OAF sees it,
+// and are the ones that apply to commands run outside of any server
+const TEMPLATE_GUILD = "*";
+const DEFAULT_FOOTER = "Problems? Message DocRostov#7004 on discord.";
+const OAF_ICON = "http://images.kingdomofloathing.com/itemimages/oaf.gif";
+const MAX_FOOTER_LENGTH = 255;
+// Turning these off would leave a server unable to turn anything back on
+const ALWAYS_ENABLED = ["config", "grant", "revoke", "permissions"];
+
+const SETTINGS = [
+  { name: "reaction channel", value: "rolechannel" },
+  { name: "reaction role", value: "reactionrole" },
+  { name: "dread alert channel", value: "dreadalerts" },
+  { name: "stash alert channel", value: "stashalerts" },
+  { name: "footer", value: "footer" },
+  { name: "clans", value: "clans" },
+  { name: "disable command", value: "disable" },
+  { name: "enable command", value: "enable" },
+];
+
+const guildSettings: Map<string, GuildSettings> = new Map();
+
+export async function syncGuildSettings(databaseClientPool: Pool): Promise<void> {
+  guildSettings.clear();
+  for (let row of (await databaseClientPool.query("SELECT * FROM guild_settings;")).rows) {
+    guildSettings.set(row.guild_id, {
+      guildId: row.guild_id,
+      roleChannelId: row.role_channel_id ?? undefined,
+      dreadAlertChannelId: row.dread_alert_channel_id ?? undefined,
+      stashAlertChannelId: row.stash_alert_channel_id ?? undefined,
+      footer: row.footer ?? undefined,
+      disabledCommands: row.disabled_commands,
+      reactionRoles: new Map(),
+    });
+  }
+  for (let row of (await databaseClientPool.query("SELECT * FROM reaction_roles;")).rows) {
+    guildSettings.get(row.guild_id)?.reactionRoles.set(row.emoji, row.role_id);
+  }
+}
+
+export function getGuildSettings(guildId?: string | null): GuildSettings {
+  const id = guildId ?? TEMPLATE_GUILD;
+  return (
+    guildSettings.get(id) ?? {
+      guildId: id,
+      disabledCommands: [],
+      reactionRoles: new Map(),
+    }
+  );
+}
+
+export function oafFooter(guildId?: string | null): { text: string; iconURL: string } {
+  return { text: getGuildSettings(guildId).footer ?? DEFAULT_FOOTER, iconURL: OAF_ICON };
+}
+
+// Every channel that wants to hear about a clan, from the servers that follow it
+export function alertChannelIds(kind: "dread" | "stash", clanId: number): string[] {
+  return [...guildSettings.values()]
+    .filter((settings) => settings.guildId !== TEMPLATE_GUILD)
+    .filter((settings) => getClans(undefined, settings.guildId).some((clan) => clan.id === clanId))
+    .map((settings) =>
+      kind === "dread" ? settings.dreadAlertChannelId : settings.stashAlertChannelId
+    )
+    .filter((channelId): channelId is string => !!channelId);
+}
+
+// OAF's home server starts out following every managed clan, where anywhere else starts with none
+async function adoptTemplate(databaseClientPool: Pool, guild: Guild): Promise<void> {
+  const adopted = await databaseClientPool.query(
+    "INSERT INTO guild_settings (guild_id, role_channel_id, dread_alert_channel_id, stash_alert_channel_id, footer, disabled_commands, all_clans) SELECT $1, role_channel_id, dread_alert_channel_id, stash_alert_channel_id, footer, disabled_commands, $3 FROM guild_settings WHERE guild_id = $2 ON CONFLICT DO NOTHING;",
+    [guild.id, TEMPLATE_GUILD, guild.id === process.env.HOME_GUILD_ID]
+  );
+  if (!adopted.rowCount) return;
+  await databaseClientPool.query(
+    "INSERT INTO reaction_roles (guild_id, emoji, role_id) SELECT $1, emoji, role_id FROM reaction_roles WHERE guild_id = $2 ON CONFLICT DO NOTHING;",
+    [guild.id, TEMPLATE_GUILD]
+  );
+  await syncGuildSettings(databaseClientPool);
+  await syncClans(databaseClientPool);
+}
+
+export function attachConfigCommands(discordClient: DiscordClient, databaseClientPool: Pool) {
+  const client = discordClient.client();
+  client.on("ready", async () => {
+    for (const guild of client.guilds.cache.values()) {
+      await adoptTemplate(databaseClientPool, guild);
+    }
+  });
+  client.on("guildCreate", (guild: Guild) => adoptTemplate(databaseClientPool, guild));
+
+  discordClient.attachCommand(
+    "config",
+    [
+      {
+        name: "setting",
+        description: "The setting to change. Leave this out to see every setting.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        choices: SETTINGS,
+      },
+      {
+        name: "value",
+        description: 'The new value, such as a #channel or a command name. "none" clears it.',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+    ],
+    (interaction: CommandInteraction) => config(interaction, discordClient, databaseClientPool),
+    "See or change how OAF behaves in this server."
+  );
+}
+
+function describeSettings(guildId: string): MessageEmbed {
+  const settings = getGuildSettings(guildId);
+  const channel = (channelId?: string) => (channelId ? `<#${channelId}>` : "none");
+  const clans = getClans(undefined, guildId);
+  return new MessageEmbed()
+    .setTitle("OAF settings for this server")
+    .addFields(
+      { name: "Reaction channel", value: channel(settings.roleChannelId), inline: true },
+      { name: "Dread alert channel", value: channel(settings.dreadAlertChannelId), inline: true },
+      { name: "Stash alert channel", value: channel(settings.stashAlertChannelId), inline: true },
+      {
+        name: "Reaction roles",
+        value:
+          [...settings.reactionRoles.entries()]
+            .map(([emoji, roleId]) => `${emoji} <@&${roleId}>`)
+            .join("\n") || "none",
+      },
+      {
+        name: "Clans",
+        value: followsEveryClan(guildId)
+          ? "all"
+          : clans.map((clan) => clan.name).join(", ") || "none",
+      },
+      {
+        name: "Disabled commands",
+        value: settings.disabledCommands.map((command) => `/${command}`).join(", ") || "none",
+      },
+      { name: "Footer", value: settings.footer ?? DEFAULT_FOOTER }
+    )
+    .setFooter(oafFooter(guildId));
+}
+
+// A channel in this server, given as a mention or an id
+function parseChannel(interaction: CommandInteraction, value: string): string | undefined {
+  const id = /^(?:<#)?(\d+)>?$/.exec(value)?.[1];
+  return id && interaction.guild?.channels.cache.has(id) ? id : undefined;
+}
+
+async function saveSettings(databaseClientPool: Pool, settings: GuildSettings): Promise<void> {
+  await databaseClientPool.query(
+    "INSERT INTO guild_settings (guild_id, role_channel_id, dread_alert_channel_id, stash_alert_channel_id, footer, disabled_commands) VALUES ($1, $2, $3, $4, $5, $6) ON CONFLICT (guild_id) DO UPDATE SET role_channel_id = $2, dread_alert_channel_id = $3, stash_alert_channel_id = $4, footer = $5, disabled_commands = $6;",
+    [
+      settings.guildId,
+      settings.roleChannelId ?? null,
+      settings.dreadAlertChannelId ?? null,
+      settings.stashAlertChannelId ?? null,
+      settings.footer ?? null,
+      settings.disabledCommands,
+    ]
+  );
+}
+
+async function config(
+  interaction: CommandInteraction,
+  discordClient: DiscordClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  const guildId = interaction.guildId;
+  if (!guildId) {
+    interaction.reply({ content: "Settings can only be changed in a server.", ephemeral: true });
+    return;
+  }
+  const setting = interaction.options.getString("setting", false);
+  const value = interaction.options.getString("value", false)?.trim() ?? "";
+  if (!setting) {
+    interaction.reply({ embeds: [describeSettings(guildId)], ephemeral: true });
+    return;
+  }
+  const settings = { ...getGuildSettings(guildId), guildId: guildId };
+  const clearing = value.toLowerCase() === "none" || !value;
+  const refuse = (content: string) => interaction.reply({ content: content, ephemeral: true });
+  let done: string;
+  switch (setting) {
+    case "rolechannel":
+    case "dreadalerts":
+    case "stashalerts": {
+      const channelId = clearing ? undefined : parseChannel(interaction, value);
+      if (!clearing && !channelId) {
+        refuse("That isn't a channel in this server.");
+        return;
+      }
+      if (setting === "rolechannel") settings.roleChannelId = channelId;
+      if (setting === "dreadalerts") settings.dreadAlertChannelId = channelId;
+      if (setting === "stashalerts") settings.stashAlertChannelId = channelId;
+      done = channelId ? `Set to <#${channelId}>.` : "Cleared.";
+      break;
+    }
+    case "reactionrole": {
+      const [, emoji, role] = /^(\S+)\s+(?:<@&)?(\d+|none)>?$/i.exec(value) || [];
+      if (!emoji) {
+        refuse('Give an emoji and then a role, like "🇹 @Role", or "🇹 none".');
+        return;
+      }
+      if (role.toLowerCase() === "none") {
+        await databaseClientPool.query(
+          "DELETE FROM reaction_roles WHERE guild_id = $1 AND emoji = $2;",
+          [guildId, emoji]
+        );
+        done = `Reacting with ${emoji} no longer gives a role.`;
+      } else {
+        const problem = roleProblem(interaction, role);
+        if (problem) {
+          refuse(problem);
+          return;
+        }
+        await databaseClientPool.query(
+          "INSERT INTO reaction_roles (guild_id, emoji, role_id) VALUES ($1, $2, $3) ON CONFLICT (guild_id, emoji) DO UPDATE SET role_id = $3;",
+          [guildId, emoji, role]
+        );
+        done = `Reacting with ${emoji} in the reaction channel now gives <@&${role}>.`;
+      }
+      break;
+    }
+    case "footer":
+      // Discord allows footers of up to 2048 characters, but they're stored in a VARCHAR (255)
+      if (value.length > MAX_FOOTER_LENGTH) {
+        refuse(`Footers can be at most ${MAX_FOOTER_LENGTH} characters long.`);
+        return;
+      }
+      settings.footer = clearing || value.toLowerCase() === "default" ? undefined : value;
+      done = `Embeds now say "${settings.footer ?? DEFAULT_FOOTER}".`;
+      break;
+    case "clans": {
+      const all = value.toLowerCase() === "all";
+      const names = clearing || all ? [] : value.split(",");
+      const problem = await setGuildClans(
+        databaseClientPool,
+        guildId,
+        all ? "all" : names.map((name) => name.trim()).filter((name) => name)
+      );
+      if (problem) {
+        refuse(problem);
+        return;
+      }
+      done = all
+        ? "This server now follows every managed clan."
+        : names.length
+        ? "This server now follows just those clans."
+        : "This server no longer follows any clans.";
+      break;
+    }
+    case "disable":
+    case "enable": {
+      const command = value.replace(/^\//, "").toLowerCase();
+      if (!discordClient.command(command)) {
+        refuse(`There's no /${command} command.`);
+        return;
+      }
+      if (setting === "disable" && ALWAYS_ENABLED.includes(command)) {
+        refuse(`/${command} can't be turned off.`);
+        return;
+      }
+      settings.disabledCommands = settings.disabledCommands.filter((name) => name !== command);
+      if (setting === "disable") settings.disabledCommands.push(command);
+      done = `/${command} is now ${setting}d in this server.`;
+      break;
+    }
+    default:
+      refuse("Setting not recognised.");
+      return;
+  }
+  await saveSettings(databaseClientPool, settings);
+  await syncGuildSettings(databaseClientPool);
+  await interaction.reply({ content: done, allowedMentions: { parse: [] } });
+}
@@ -0,0 +1,92 @@
+import { HOBOPOLIS_SIDE_ZONES } from "./constants";
+import { eventsFor, RaidLog, RaidLogEvent } from "./raidlogparser";
+
+export type HoboSewerStatus = {
+  grates: number;
+  waterLevel: number;
+  throughSewer: number;
+};
+
+export type HoboZoneStatus = {
+  name: string;
+  boss: string;
+  kills: number;
+  // The kill count the zone's image stops changing at, so this is our best guess at progress
+  completion: number;
+  bossDefeated: boolean;
+};
+
+export type HoboParticipation = {
+  player: string;
+  playerId: number;
+  kills: number;
+  scares: number;
+};
+
+export type HobopolisStatus = {
+  sewer: HoboSewerStatus;
+  townSquareKills: number;
+  sideZones: HoboZoneStatus[];
+  hodgmanDefeated: boolean;
+  participation: HoboParticipation[];
+};
+
+function total(events: RaidLogEvent[], action: RegExp): number {
+  return events
+    .filter((event) => action.test(event.action))
+    .reduce((acc, event) => acc + event.count, 0);
+}
+
+export function hobopolisEvents(raidLog: RaidLog): RaidLogEvent[] {
+  return eventsFor(raidLog, "Hobopolis");
+}
+
+export function extractHobopolisStatus(raidLog: RaidLog): HobopolisStatus {
+  const events = hobopolisEvents(raidLog);
+  const sewerEvents = events.filter((event) => event.zone === "Sewers");
+  const townSquareEvents = events.filter((event) => event.zone === "Town Square");
+
+  const sideZones = HOBOPOLIS_SIDE_ZONES.map((zone) => {
+    const zoneEvents = events.filter((event) => event.zone === zone.name);
+    const kills = total(zoneEvents, new RegExp(`^defeated ${zone.hobo} hobo$`, "i"));
+    const bossDefeated = zoneEvents.some((event) => zone.bossMatcher.test(event.action));
+    return {
+      name: zone.name,
+      boss: zone.boss,
+      kills: kills,
+      completion: bossDefeated ? 100 : Math.min(99, Math.floor((100 * kills) / zone.killsNeeded)),
+      bossDefeated: bossDefeated,
+    };
+  });
+
+  const participation: Map<number, HoboParticipation> = new Map();
+  for (const event of events) {
+    const kills = event.action.startsWith("defeated ") ? event.count : 0;
+    const scared = /scared (\d+ )?hobo/i.exec(event.action);
+    const scares = scared ? (scared[1] ? parseInt(scared[1]) : event.count) : 0;
+    if (!kills && !scares) continue;
+    const entry = participation.get(event.playerId) || {
+      player: event.player,
+      playerId: event.playerId,
+      kills: 0,
+      scares: 0,
+    };
+    entry.kills += kills;
+    entry.scares += scares;
+    participation.set(event.playerId, entry);
+  }
+
+  return {
+    sewer: {
+      grates: total(sewerEvents, /^opened (a )?sewer grate/),
+      waterLevel: total(sewerEvents, /^lowered the water level/),
+      throughSewer: total(sewerEvents, /^made it through the sewer/),
+    },
+    townSquareKills: total(townSquareEvents, /^defeated Normal hobo$/i),
+    sideZones: sideZones,
+    hodgmanDefeated: events.some((event) =>
+      /^defeated Hodgman, The Hoboverlord/.test(event.action)
+    ),
+    participation: [...participation.values()].sort((a, b) => b.kills - a.kills),
+  };
+}
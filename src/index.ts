@@ -1,8 +1,20 @@
 import { DiscordClient } from "./discord";
 import { WikiSearcher } from "./wikisearch";
-import { attachMiscCommands, syncReminders } from "./misccommands";
+import { attachMiscCommands } from "./misccommands";
+import { attachReminderCommands, ReminderScheduler } from "./reminders";
+import { attachUserSettingsCommands, syncUserSettings } from "./usersettings";
 import { KOLClient } from "./kolclient";
-import { attachClanCommands, syncToDatabase } from "./raidlogs";
+import { attachClanCommands, resolveLegacyPlayers, syncToDatabase } from "./raidlogs";
+import { attachClanAdminCommands, syncClans } from "./clans";
+import { attachAccountCommands, syncLinkedAccounts } from "./accounts";
+import { attachPermissionCommands, syncPermissions } from "./permissions";
+import { attachConfigCommands, syncGuildSettings } from "./guildsettings";
+import { attachRolePanelCommands, syncRolePanels } from "./rolepanels";
+import { ChatClient } from "./chatclient";
+import { ChatRelay } from "./chatrelay";
+import { DreadWatcher } from "./dreadalerts";
+import { attachStashCommands, StashWatcher } from "./stashes";
+import { attachInGameCommands } from "./ingamecommands";
 import * as dotenv from "dotenv";
 import { attachKoLCommands } from "./kolcommands";
 import { Pool } from "pg";
@@ -26,9 +38,21 @@ async function performSetup(): Promise<DiscordClient> {
   console.log("Migrating database.");
   await migrate({ client: databaseClientPool }, "./migrations");
 
+  console.log("Restoring KoL session.");
+  await kolClient.attachDatabase(databaseClientPool);
+
   console.log("Syncing database.");
+  await syncClans(databaseClientPool);
+  await syncLinkedAccounts(databaseClientPool);
+  await syncPermissions(databaseClientPool);
+  await syncGuildSettings(databaseClientPool);
+  await syncUserSettings(databaseClientPool);
+  await syncRolePanels(databaseClientPool);
   await syncToDatabase(databaseClientPool);
 
+  console.log("Resolving players tracked by name.");
+  await resolveLegacyPlayers(kolClient, databaseClientPool);
+
   console.log("Downloading mafia data.");
   await wikiSearcher.downloadMafiaData();
   console.log("All mafia data downloaded.");
@@ -41,19 +65,54 @@ async function performSetup(): Promise<DiscordClient> {
 
   console.log("Attaching clan commands.");
   attachClanCommands(discordClient, kolClient, databaseClientPool);
+  attachClanAdminCommands(discordClient, databaseClientPool);
+  attachAccountCommands(discordClient, kolClient, databaseClientPool);
+  attachStashCommands(discordClient, kolClient, databaseClientPool);
 
   console.log("Attaching misc commands.");
-  attachMiscCommands(discordClient, databaseClientPool);
+  attachMiscCommands(discordClient);
+  attachReminderCommands(discordClient, databaseClientPool);
+  attachUserSettingsCommands(discordClient, databaseClientPool);
+
+  console.log("Attaching permission commands.");
+  attachPermissionCommands(discordClient, databaseClientPool);
+  attachConfigCommands(discordClient, databaseClientPool);
+  attachRolePanelCommands(discordClient, databaseClientPool);
 
   console.log("Attaching wiki commands.");
   discordClient.attachMetaBotCommands();
 
-  console.log("Syncing reminders.");
-  await syncReminders(databaseClientPool, discordClient.client());
+  console.log("Starting reminders.");
+  new ReminderScheduler(databaseClientPool, discordClient.client()).start();
 
   console.log("Registering slash commands.");
   await discordClient.registerSlashCommands();
 
+  console.log("Listening to KoL chat.");
+  const chatClient = new ChatClient(kolClient);
+  attachInGameCommands(chatClient, discordClient);
+  chatClient.start();
+
+  if (process.env.CHAT_RELAY_CLAN_ID && process.env.CHAT_RELAY_CHANNEL_ID) {
+    console.log("Starting chat relay.");
+    new ChatRelay(
+      kolClient,
+      chatClient,
+      discordClient.client(),
+      parseInt(process.env.CHAT_RELAY_CLAN_ID),
+      process.env.CHAT_RELAY_CHANNEL_ID
+    ).start();
+  }
+
+  console.log("Watching Dreadsylvania and clan stashes.");
+  new DreadWatcher(kolClient, discordClient.client(), process.env.DREAD_ALERT_CHANNEL_ID).start();
+  new StashWatcher(
+    kolClient,
+    databaseClientPool,
+    discordClient.client(),
+    process.env.STASH_ALERT_CHANNEL_ID
+  ).start();
+
   return discordClient;
 }
 
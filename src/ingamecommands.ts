@@ -0,0 +1,212 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import { InteractionReplyOptions, MessageEmbed, WebhookEditMessageOptions } from "discord.js";
+import { getLinkedDiscordId } from "./accounts";
+import { ChatMessage, MAX_CHAT_LENGTH, toKoLChat } from "./chat";
+import { ChatClient } from "./chatclient";
+import { Command, DiscordClient, PortableInteraction } from "./discord";
+import { KoLUnavailableError } from "./kolclient";
+import { isPermitted } from "./permissions";
+
+// Long answers are cut off after this many private messages, rather than flooding someone
+const MAX_REPLIES = 6;
+
+type OptionValue = string | number | boolean;
+
+// Only commands that make sense without a Discord server around them can be run from KoL,
+// and those are the ones attached with attachPortableCommand
+function isPortable(command: Command | undefined): command is Required<Command> {
+  return !!command?.executePortable;
+}
+
+export function attachInGameCommands(chatClient: ChatClient, discordClient: DiscordClient) {
+  chatClient.addListener(async (message: ChatMessage) => {
+    if (message.type !== "private") return;
+    const reply = (lines: string[]) => {
+      for (const line of packLines(lines)) chatClient.send(`/msg ${message.senderId} ${line}`);
+    };
+    const [, name, args] = /^\/?(\S*)\s*([\s\S]*)$/.exec(message.message.trim()) || [];
+    const commandName = (name || "").toLowerCase();
+    const command = discordClient.command(commandName);
+    if (!isPortable(command)) {
+      const portable = discordClient
+        .commandNames()
+        .filter((portableName) => isPortable(discordClient.command(portableName)));
+      reply([
+        `${commandName && commandName !== "help" ? `I don't know "${commandName}". ` : ""}` +
+          `I can do: ${portable.join(", ")}. Try "wiki tamarind-flavored chewing gum".`,
+      ]);
+      return;
+    }
+    reply(await runCommand(command, commandName, args, message));
+  });
+}
+
+function parseOptions(command: Command, args: string, sender: string): Map<string, OptionValue> {
+  const options = command.slashCommand.toJSON().options || [];
+  const values: Map<string, OptionValue> = new Map();
+  let rest = args.trim();
+  options.forEach((option, index) => {
+    if (!rest) return;
+    // The last option soaks up everything that's left, so names and search terms can have spaces
+    const [token, remainder] =
+      index === options.length - 1
+        ? [rest, ""]
+        : [rest.split(/\s+/)[0], rest.replace(/^\S+\s*/, "")];
+    rest = remainder;
+    switch (option.type) {
+      case ApplicationCommandOptionType.Integer:
+      case ApplicationCommandOptionType.Number:
+        if (!isNaN(Number(token))) values.set(option.name, Number(token));
+        break;
+      case ApplicationCommandOptionType.Boolean:
+        values.set(option.name, ["true", "yes", "on", "1"].includes(token.toLowerCase()));
+        break;
+      default:
+        values.set(option.name, token);
+    }
+  });
+  // Commands that ask "which player?" should assume the person asking
+  if (!values.has("player") && options.some((option) => option.name === "player")) {
+    values.set("player", sender);
+  }
+  return values;
+}
+
+// Reads an option the way discord.js does, throwing if a required one is missing
+function optionGetter<T extends OptionValue>(values: Map<string, OptionValue>, type: string) {
+  function get(name: string, required: true): T;
+  function get(name: string, required?: boolean): T | null;
+  function get(name: string, required: boolean = false): T | null {
+    const value = values.get(name);
+    if (typeof value === type) return value as T;
+    if (required) throw `Missing required option "${name}".`;
+    return null;
+  }
+  return get;
+}
+
+// Stands in for the interaction discord.js would give a command, collecting whatever it replies with
+async function runCommand(
+  command: Required<Command>,
+  commandName: string,
+  args: string,
+  message: ChatMessage
+): Promise<string[]> {
+  const values = parseOptions(command, args, message.sender);
+  const missing = (command.slashCommand.toJSON().options || []).filter(
+    (option) => option.required && !values.has(option.name)
+  );
+  if (missing.length) {
+    return [`${commandName} needs ${missing.map((option) => option.name).join(" and ")}.`];
+  }
+  let main: string[] = [];
+  const followUps: string[][] = [];
+  let deferred = false;
+  let replied = false;
+  const interaction: PortableInteraction = {
+    commandName: commandName,
+    user: {
+      id: getLinkedDiscordId(message.senderId) || `kol:${message.senderId}`,
+      username: message.sender,
+    },
+    guildId: null,
+    channelId: null,
+    get deferred() {
+      return deferred;
+    },
+    get replied() {
+      return replied;
+    },
+    options: {
+      getString: optionGetter<string>(values, "string"),
+      getInteger: optionGetter<number>(values, "number"),
+      getNumber: optionGetter<number>(values, "number"),
+      getBoolean: optionGetter<boolean>(values, "boolean"),
+    },
+    deferReply: async () => {
+      deferred = true;
+    },
+    reply: async (response: string | InteractionReplyOptions) => {
+      replied = true;
+      main = responseToText(response);
+    },
+    editReply: async (response: string | WebhookEditMessageOptions) => {
+      replied = true;
+      main = responseToText(response);
+    },
+    followUp: async (response: string | InteractionReplyOptions) => {
+      followUps.push(responseToText(response));
+    },
+  };
+  if (!isPermitted(interaction, commandName)) {
+    return [`You don't have permission to use ${commandName}.`];
+  }
+  try {
+    await command.executePortable(interaction);
+  } catch (error) {
+    if (error instanceof KoLUnavailableError) return [error.message];
+    console.log(error);
+    return [
+      "OAF recovered from a crash trying to process that command. Please tell Scotch or Phill",
+    ];
+  }
+  return [...main, ...followUps.flat()];
+}
+
+function responseToText(
+  response: string | InteractionReplyOptions | WebhookEditMessageOptions
+): string[] {
+  if (typeof response === "string") return toPlainLines(response);
+  const lines = toPlainLines(response.content || "");
+  for (const embed of response.embeds || []) {
+    const data = embed instanceof MessageEmbed ? embed : new MessageEmbed(embed);
+    lines.push(...toPlainLines(data.title || ""));
+    lines.push(...toPlainLines(data.description || ""));
+    for (const field of data.fields) {
+      const name = toPlainLines(field.name).join(" ");
+      const value = toPlainLines(field.value);
+      if (name && value.length) lines.push(`${name}: ${value.join(" / ")}`);
+      else lines.push(...value);
+    }
+  }
+  return lines;
+}
+
+// Strips Discord's markdown and markup down to something KoL chat can show
+function toPlainLines(text: string): string[] {
+  return text
+    .replace(/<t:(\d+)(?::\w)?>/g, (_, time) => new Date(parseInt(time) * 1000).toUTCString())
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/\*\*|__|~~|`|\|\|/g, "")
+    .replace(/(^|\s)\*(\S[^*]*)\*/g, "$1$2")
+    .replace(/\u200b/g, "")
+    .replace(/\u00a0/g, " ")
+    .split("\n")
+    .map((line) => toKoLChat(line))
+    .filter((line) => line);
+}
+
+// Fits lines into as few private messages as possible, leaving room for "/msg 1234567 "
+function packLines(lines: string[]): string[] {
+  const limit = MAX_CHAT_LENGTH - 20;
+  const messages: string[] = [];
+  for (const line of lines.length ? lines : ["Done."]) {
+    const last = messages.length ? messages[messages.length - 1] : undefined;
+    if (last !== undefined && last.length + line.length + 3 <= limit) {
+      messages[messages.length - 1] = `${last} / ${line}`;
+    } else {
+      let rest = line;
+      while (rest.length > limit) {
+        // Break at a space where there is one, so words aren't cut in half
+        const breakAt = rest.lastIndexOf(" ", limit) > 0 ? rest.lastIndexOf(" ", limit) : limit;
+        messages.push(rest.slice(0, breakAt));
+        rest = rest.slice(breakAt).trim();
+      }
+      if (rest) messages.push(rest);
+    }
+  }
+  if (messages.length > MAX_REPLIES) {
+    return [...messages.slice(0, MAX_REPLIES - 1), "...and more than fits in chat. Check Discord!"];
+  }
+  return messages;
+}
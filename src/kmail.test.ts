@@ -0,0 +1,68 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { FakeKingdom } from "./fakekingdom";
+import { KOLClient } from "./kolclient";
+import { isDuringRollover } from "./utils";
+
+// KOLClient won't talk to the Kingdom, fake or not, while it thinks rollover is happening
+const options = { skip: isDuringRollover() && "it's rollover" };
+
+function fakeClient(): { kingdom: FakeKingdom; client: KOLClient } {
+  const kingdom = new FakeKingdom();
+  return { kingdom: kingdom, client: new KOLClient(kingdom.transport()) };
+}
+
+test("reads the inbox, attachments and all", options, async () => {
+  const { client } = fakeClient();
+  const kmails = await client.getKmails();
+  assert.equal(kmails.length, 2);
+  assert.deepEqual(kmails[0], {
+    id: 90210,
+    type: "normal",
+    senderId: 1197090,
+    senderName: "Gausie",
+    sent: 1893456000,
+    message: "Hi OAF, here's my code: oaf-c0ffee",
+    items: [],
+    meat: 0,
+  });
+  assert.equal(kmails[1].message, "Some supplies for the basement.\nDon't spend it all at once!");
+  assert.deepEqual(kmails[1].items, [{ id: 2, name: "seal-clubbing club", quantity: 3 }]);
+  assert.equal(kmails[1].meat, 1000);
+});
+
+test("sees kmails that arrive later", options, async () => {
+  const { kingdom, client } = fakeClient();
+  kingdom.receiveKmail(2129446, "Phillammon", "oaf-decade");
+  const kmail = await client.getKmail(90212);
+  assert.equal(kmail?.senderName, "Phillammon");
+  assert.equal(kmail?.message, "oaf-decade");
+});
+
+test("deletes kmails", options, async () => {
+  const { client } = fakeClient();
+  assert.equal(await client.deleteKmails([90210]), true);
+  assert.equal(await client.getKmail(90210), undefined);
+  assert.deepEqual(
+    (await client.getKmails()).map((kmail) => kmail.id),
+    [90211]
+  );
+  assert.equal(await client.deleteKmails([]), true);
+});
+
+test("sends kmails with items and meat", options, async () => {
+  const { kingdom, client } = fakeClient();
+  assert.equal(await client.sendKmail("Gausie", "Thanks!", [{ id: 2, quantity: 1 }], 50), true);
+  assert.equal(await client.sendKmail(1197090, "Again"), true);
+  assert.deepEqual(kingdom.sentKmails, [
+    { recipient: "Gausie", message: "Thanks!", items: [{ id: 2, quantity: 1 }], meat: 50 },
+    { recipient: "1197090", message: "Again", items: [], meat: 0 },
+  ]);
+});
+
+test("refuses to send more items than a kmail can carry", options, async () => {
+  const { kingdom, client } = fakeClient();
+  const items = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map((id) => ({ id: id, quantity: 1 }));
+  await assert.rejects(client.sendKmail("Gausie", "Too much", items));
+  assert.deepEqual(kingdom.sentKmails, []);
+});
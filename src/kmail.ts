@@ -0,0 +1,63 @@
+import { decode } from "html-entities";
+
+export type KmailItem = {
+  id: number;
+  name: string;
+  quantity: number;
+};
+
+export type Kmail = {
+  id: number;
+  type: string;
+  senderId: number;
+  senderName: string;
+  // The message with any attachments taken out and converted to plain text
+  message: string;
+  items: KmailItem[];
+  meat: number;
+  // Seconds since the epoch, as KoL reports it
+  sent: number;
+};
+
+// KoL puts each attachment in its own centred table after the message text
+const ATTACHMENT_MATCHER = /<center>\s*<table[\s\S]*?<\/table>\s*<\/center>/gi;
+const ITEM_MATCHER = /rel="id=(\d+)[^"]*?&n=(\d+)[^"]*"[\s\S]*?alt="([^"]*)"/i;
+const MEAT_MATCHER = /You gain ([\d,]+) Meat/i;
+
+function toText(html: string): string {
+  return decode(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+      .trim()
+  );
+}
+
+export function parseKmailMessage(html: string): {
+  message: string;
+  items: KmailItem[];
+  meat: number;
+} {
+  const items: KmailItem[] = [];
+  let meat = 0;
+  for (const [attachment] of html.matchAll(ATTACHMENT_MATCHER)) {
+    const item = ITEM_MATCHER.exec(attachment);
+    if (item) {
+      items.push({ id: parseInt(item[1]), name: decode(item[3]), quantity: parseInt(item[2]) });
+    }
+    const meatGained = MEAT_MATCHER.exec(attachment);
+    if (meatGained) meat += parseInt(meatGained[1].replace(/,/g, ""));
+  }
+  return { message: toText(html.replace(ATTACHMENT_MATCHER, "")), items: items, meat: meat };
+}
+
+export function parseKmail(kmail: any): Kmail {
+  return {
+    id: parseInt(kmail.id),
+    type: kmail.type,
+    senderId: parseInt(kmail.fromid),
+    senderName: kmail.fromname,
+    sent: parseInt(kmail.azunixtime),
+    ...parseKmailMessage(kmail.message || ""),
+  };
+}
@@ -1,14 +1,41 @@
 import axios from "axios";
 import { decode } from "html-entities";
-import { cleanString, indent, toWikiLink } from "./utils";
+import { cleanString, indent, isDuringRollover, rolloverWindowEnd, toWikiLink } from "./utils";
 import { Mutex } from "async-mutex";
 import { DOMParser } from "xmldom";
 import { select } from "xpath";
 import { ItemType, ITEM_SPADING_CALLS } from "./constants";
+import { classifyPage, KOLSession, SessionHealth } from "./kolsession";
+import { Pool } from "pg";
+import {
+  DetailedDreadStatus,
+  DreadStatus,
+  extractDreadCastle,
+  extractDreadForest,
+  extractDreadOverview,
+  extractDreadVillage,
+} from "./dread";
+import { extractHobopolisStatus, HobopolisStatus } from "./hobopolis";
+import {
+  extractSlimeTubeStatus,
+  extractSororityHouseStatus,
+  SlimeTubeStatus,
+  SororityHouseStatus,
+} from "./basement";
+import { ChatMessage, parseChatMessage } from "./chat";
+import { Kmail, KmailItem, parseKmail } from "./kmail";
+import { parseRaidLog } from "./raidlogparser";
+import { parseStash, parseStashLog, StashItem, StashLogEntry } from "./stash";
+import { parseWhitelist, Whitelist } from "./whitelist";
 
 const clanActionMutex = new Mutex();
 const loginMutex = new Mutex();
 
+// How long to wait before poking the Kingdom again when it's down outside of the usual rollover window
+const UNAVAILABLE_RETRY = 2 * 60 * 1000;
+// KoL refuses kmails with more attachments than this
+const MAX_KMAIL_ITEMS = 11;
+
 const parser = new DOMParser({
   locator: {},
   errorHandler: {
@@ -29,51 +56,24 @@ type MallPrice = {
   minPrice: number | null;
 };
 
-type KOLCredentials = {
-  fetched: number;
-  sessionCookies?: string;
-  pwdhash?: string;
+export type KOLRequest = {
+  method: "GET" | "POST";
+  params?: object;
+  data?: URLSearchParams;
+  cookie?: string;
+  followRedirects?: boolean;
 };
 
-type DreadStatus = {
-  forest: number;
-  village: number;
-  castle: number;
-  skills: number;
-  bosses: string[];
-  capacitor: boolean;
+export type KOLResponse = {
+  status: number;
+  headers: { [header: string]: string | string[] | undefined };
+  data: any;
 };
 
-type DreadForestStatus = {
-  attic: boolean;
-  watchtower: boolean;
-  auditor: boolean;
-  musicbox: boolean;
-  kiwi: boolean;
-  amber: boolean;
-};
+// Everything KOLClient sends goes through one of these, so it can be pointed at a fake Kingdom
+export type KOLTransport = (path: string, request: KOLRequest) => Promise<KOLResponse>;
 
-type DreadVillageStatus = {
-  schoolhouse: boolean;
-  suite: boolean;
-  hanging: boolean;
-};
-
-type DreadCastleStatus = {
-  lab: boolean;
-  roast: boolean;
-  banana: boolean;
-  agaricus: boolean;
-};
-
-type DetailedDreadStatus = {
-  overview: DreadStatus;
-  forest: DreadForestStatus;
-  village: DreadVillageStatus;
-  castle: DreadCastleStatus;
-};
-
-type LeaderboardInfo = {
+export type LeaderboardInfo = {
   name: string;
   boards: SubboardInfo[];
 };
@@ -115,11 +115,45 @@ function sanitiseBlueText(blueText: string): string {
   );
 }
 
+export class KoLUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KoLUnavailableError";
+  }
+}
+
+export function httpTransport(baseUrl: string): KOLTransport {
+  return async (path: string, request: KOLRequest) => {
+    const response = await axios(`${baseUrl}/${path}`, {
+      method: request.method,
+      params: request.params,
+      data: request.data,
+      headers: request.cookie ? { cookie: request.cookie } : {},
+      maxRedirects: request.followRedirects === false ? 0 : 5,
+      validateStatus: () => true,
+    });
+    return { status: response.status, headers: response.headers, data: response.data };
+  };
+}
+
 export class KOLClient {
   private _loginParameters: URLSearchParams;
-  private _credentials: KOLCredentials = { fetched: -1 };
-
-  constructor() {
+  private _session: KOLSession;
+  private _transport: KOLTransport;
+  private _queuedTasks: Map<string, () => Promise<void>> = new Map();
+  private _resumeTimer?: NodeJS.Timeout;
+  private _homeClan?: number;
+  private _currentClan?: number;
+  private _chatLastSeen = 0;
+  private _chatBuffer: ChatMessage[] = [];
+
+  constructor(
+    transport: KOLTransport = httpTransport(
+      process.env.KOL_BASE_URL || "https://www.kingdomofloathing.com"
+    )
+  ) {
+    this._transport = transport;
+    this._session = new KOLSession(process.env.KOL_USER || "");
     this._loginParameters = new URLSearchParams();
     this._loginParameters.append("loggingin", "Yup.");
     this._loginParameters.append("loginname", process.env.KOL_USER || "");
@@ -128,65 +162,130 @@ export class KOLClient {
     this._loginParameters.append("submitbutton", "Log In");
   }
 
+  async attachDatabase(databaseClientPool: Pool): Promise<void> {
+    await this._session.attachDatabase(databaseClientPool);
+  }
+
+  get sessionHealth(): SessionHealth {
+    return this._session.health;
+  }
+
+  isAvailable(): boolean {
+    if (isDuringRollover()) return false;
+    const health = this._session.health;
+    // The session only notices the game is back once a request gets through, so don't hold off forever
+    return (
+      !["rollover", "maintenance"].includes(health.state) ||
+      health.lastFailure < Date.now() - UNAVAILABLE_RETRY
+    );
+  }
+
+  private checkAvailable(): void {
+    if (this.isAvailable()) return;
+    const health = this._session.health;
+    if (isDuringRollover() || health.state === "rollover") {
+      throw new KoLUnavailableError(
+        `The Kingdom is down for rollover right now. Try again <t:${Math.floor(
+          rolloverWindowEnd() / 1000
+        )}:R>.`
+      );
+    }
+    throw new KoLUnavailableError(
+      "The Kingdom is down for maintenance right now. Try again in a few minutes."
+    );
+  }
+
+  queueUntilAvailable(name: string, task: () => Promise<void>): void {
+    console.log(`Queueing ${name} until the Kingdom is back.`);
+    this._queuedTasks.set(name, task);
+    this.scheduleResume();
+  }
+
+  private scheduleResume(): void {
+    if (this._resumeTimer) return;
+    const delay = isDuringRollover() ? rolloverWindowEnd() - Date.now() : UNAVAILABLE_RETRY;
+    this._resumeTimer = setTimeout(() => this.resumeQueuedTasks(), delay);
+  }
+
+  private async resumeQueuedTasks(): Promise<void> {
+    this._resumeTimer = undefined;
+    for (const [name, task] of [...this._queuedTasks.entries()]) {
+      this._queuedTasks.delete(name);
+      try {
+        console.log(`Resuming ${name}.`);
+        await task();
+      } catch (error) {
+        if (error instanceof KoLUnavailableError) this._queuedTasks.set(name, task);
+        else console.log(error);
+      }
+    }
+    if (this._queuedTasks.size) this.scheduleResume();
+  }
+
   async logIn(): Promise<void> {
     await loginMutex.runExclusive(async () => {
+      if (!this._session.canAttemptLogin()) {
+        console.log(
+          `Blocked fetching new credentials, ${
+            this._session.health.nextLoginAttempt - Date.now()
+          } milliseconds to new login`
+        );
+        return;
+      }
       try {
-        if (this._credentials.fetched < new Date().getTime() - 60000) {
-          const loginResponse = await axios("https://www.kingdomofloathing.com/login.php", {
-            method: "POST",
-            data: this._loginParameters,
-            maxRedirects: 0,
-            validateStatus: (status) => status === 302,
-          });
-          const sessionCookies = (loginResponse.headers["set-cookie"] || [])
-            .map((cookie: string) => cookie.split(";")[0])
-            .join("; ");
-          const apiResponse = await axios("https://www.kingdomofloathing.com/api.php", {
-            withCredentials: true,
-            headers: {
-              cookie: sessionCookies,
-            },
-            params: {
-              what: "status",
-              for: "OAF Discord bot for Kingdom of Loathing",
-            },
-          });
-          this._credentials = {
-            fetched: new Date().getTime(),
-            sessionCookies: sessionCookies,
-            pwdhash: apiResponse.data.pwd,
-          };
-        } else {
-          console.log("Blocked fetching new credentials");
-          console.log(
-            `${60000 + this._credentials.fetched - new Date().getTime()} milliseconds to new login`
-          );
+        const loginResponse = await this._transport("login.php", {
+          method: "POST",
+          data: this._loginParameters,
+          followRedirects: false,
+        });
+        if (loginResponse.status !== 302) {
+          const status = classifyPage(String(loginResponse.data));
+          if (status === "rollover" || status === "maintenance") this._session.unavailable(status);
+          throw `Login failed with status ${loginResponse.status}`;
         }
+        const sessionCookies = ([] as string[])
+          .concat(loginResponse.headers["set-cookie"] || [])
+          .map((cookie: string) => cookie.split(";")[0])
+          .join("; ");
+        const apiResponse = await this._transport("api.php", {
+          method: "GET",
+          cookie: sessionCookies,
+          params: {
+            what: "status",
+            for: "OAF Discord bot for Kingdom of Loathing",
+          },
+        });
+        if (!apiResponse.data?.pwd) throw "Logged in, but couldn't fetch a pwdhash";
+        await this._session.loggedIn({
+          fetched: Date.now(),
+          sessionCookies: sessionCookies,
+          pwdhash: apiResponse.data.pwd,
+        });
       } catch (error) {
-        console.log(error);
+        this._session.failed(error);
       }
     });
   }
 
   private async makeCredentialedRequest(url: string, parameters: object) {
     try {
-      const request = await axios(`https://www.kingdomofloathing.com/${url}`, {
+      const request = await this._transport(url, {
         method: "GET",
-        headers: {
-          cookie: this._credentials.sessionCookies || "",
-        },
+        cookie: this._session.credentials.sessionCookies || "",
         params: {
-          pwd: this._credentials.pwdhash,
+          pwd: this._session.credentials.pwdhash,
           ...parameters,
         },
       });
-      if (
-        !request.data ||
-        request.data.match(/<title>The Kingdom of Loathing<\/title>/) ||
-        request.data.match(/This script is not available unless you're logged in\./)
-      ) {
-        return undefined;
+      if (request.status !== 200 || !request.data) return undefined;
+      if (typeof request.data === "string") {
+        const status = classifyPage(request.data);
+        if (status !== "ok") {
+          this._session.unavailable(status);
+          return undefined;
+        }
       }
+      this._session.succeeded();
       return request.data;
     } catch {
       return undefined;
@@ -194,10 +293,17 @@ export class KOLClient {
   }
 
   private async tryRequestWithLogin(url: string, parameters: object) {
+    this.checkAvailable();
     const result = await this.makeCredentialedRequest(url, parameters);
     if (result) return result;
-    await this.logIn();
-    return (await this.makeCredentialedRequest(url, parameters)) || "";
+    // There's no point logging in again if the whole game is down
+    if (!["rollover", "maintenance"].includes(this._session.health.state)) {
+      await this.logIn();
+      const retried = await this.makeCredentialedRequest(url, parameters);
+      if (retried) return retried;
+    }
+    this.checkAvailable();
+    return "";
   }
 
   async getMallPrice(itemId: number): Promise<MallPrice> {
@@ -294,134 +400,44 @@ export class KOLClient {
     return blueText ? sanitiseBlueText(blueText.groups.description) : "";
   }
 
-  private extractDreadOverview(raidLog: string): DreadStatus {
-    const forest = raidLog.match(
-      /Your clan has defeated <b>(?<forest>[\d,]+)<\/b> monster\(s\) in the Forest/
-    );
-    const village = raidLog.match(
-      /Your clan has defeated <b>(?<village>[\d,]+)<\/b> monster\(s\) in the Village/
-    );
-    const castle = raidLog.match(
-      /Your clan has defeated <b>(?<castle>[\d,]+)<\/b> monster\(s\) in the Castle/
-    );
-
-    type MonsterData = {
-      kills: number;
-      banishes: number;
-      regex: RegExp;
-    };
-
-    const monsters: Map<string, MonsterData> = new Map([
-      ["bugbear", { kills: 0, banishes: 0, regex: /defeated\s+Falls\-From\-Sky/ }],
-      ["werewolf", { kills: 0, banishes: 0, regex: /defeated\s+The Great Wolf of the Air/ }],
-      ["ghost", { kills: 0, banishes: 0, regex: /defeated\s+Mayor Ghost/ }],
-      [
-        "zombie",
-        { kills: 0, banishes: 0, regex: /defeated\s+the Zombie Homeowners\' Association/ },
-      ],
-      ["vampire", { kills: 0, banishes: 0, regex: /defeated\s+Count Drunkula/ }],
-      ["skeleton", { kills: 0, banishes: 0, regex: /defeated\s+The Unkillable Skeleton/ }],
-    ]);
-
-    const pairs = [
-      ["bugbear", "werewolf"],
-      ["ghost", "zombie"],
-      ["vampire", "skeleton"],
-    ];
-
-    for (const monster of monsters.keys()) {
-      const monsterKillRegex = new RegExp(`defeated (.*?) ${monster} x ([0-9]+)`, "gi");
-      const monsterBanishRegex = /drove some (.*?) out of the (.*?) \(1 turn\)/gi;
-      let match;
-      while ((match = monsterKillRegex.exec(raidLog)) !== null) {
-        (monsters.get(monster) as MonsterData).kills += parseInt(match[2]);
-      }
-      while ((match = monsterBanishRegex.exec(raidLog)) !== null) {
-        (monsters.get(monster) as MonsterData).banishes++;
-      }
-    }
-    const bosses: string[] = [];
-    for (let [monster1, monster2] of pairs) {
-      const monster1data = monsters.get(monster1) as MonsterData;
-      const monster2data = monsters.get(monster2) as MonsterData;
-      if (monster1data.kills > monster2data.kills + 50) {
-        monster2data.banishes++;
-      } else if (monster2data.kills > monster1data.kills + 50) {
-        monster1data.banishes++;
-      }
-      //ELSE IF CHAIN BREAKS HERE
-      if (monster1data.regex.test(raidLog)) {
-        bosses.push(`x${monster1}`);
-      } else if (monster2data.regex.test(raidLog)) {
-        bosses.push(`x${monster2}`);
-      } else if (monster1data.banishes > monster2data.banishes) {
-        bosses.push(monster2);
-      } else if (monster2data.banishes > monster1data.banishes) {
-        bosses.push(monster1);
-      } else {
-        bosses.push("unknown");
-      }
-    }
-    const capacitor = raidLog.match(/fixed The Machine \(1 turn\)/);
-    const skills = raidLog.match(/used The Machine, assisted by/g);
-    return {
-      forest: 1000 - (forest ? parseInt(forest.groups?.forest.replace(",", "") || "0") : 0),
-      village: 1000 - (village ? parseInt(village.groups?.village.replace(",", "") || "0") : 0),
-      castle: 1000 - (castle ? parseInt(castle.groups?.castle.replace(",", "") || "0") : 0),
-      skills: skills ? 3 - skills.length : 3,
-      bosses: bosses,
-      capacitor: !!capacitor,
-    };
-  }
-
-  private extractDreadForest(raidLog: string): DreadForestStatus {
-    return {
-      attic: !!raidLog.match(/unlocked the attic of the cabin/),
-      watchtower: !!raidLog.match(/unlocked the fire watchtower/),
-      auditor: !!raidLog.match(/got a Dreadsylvanian auditor's badge/),
-      musicbox: !!raidLog.match(/made the forest less spooky/),
-      kiwi: !!(raidLog.match(/knocked some fruit loose/) || raidLog.match(/wasted some fruit/)),
-      amber: !!raidLog.match(/acquired a chunk of moon-amber/),
-    };
+  async getDreadStatusOverview(clanId: number): Promise<DreadStatus> {
+    const raidLog = await this.getRaidLog(clanId);
+    if (!raidLog) throw "No raidlog";
+    return extractDreadOverview(parseRaidLog(raidLog));
   }
 
-  private extractDreadVillage(raidLog: string): DreadVillageStatus {
+  async getDetailedDreadStatus(clanId: number): Promise<DetailedDreadStatus> {
+    const raidLog = await this.getRaidLog(clanId);
+    if (!raidLog) throw "No raidlog";
+    const parsedLog = parseRaidLog(raidLog);
     return {
-      schoolhouse: !!raidLog.match(/unlocked the schoolhouse/),
-      suite: !!raidLog.match(/unlocked the master suite/),
-      hanging: !!(raidLog.match(/hanged/) || raidLog.match(/hung/)),
+      overview: extractDreadOverview(parsedLog),
+      forest: extractDreadForest(parsedLog),
+      village: extractDreadVillage(parsedLog),
+      castle: extractDreadCastle(parsedLog),
     };
   }
 
-  private extractDreadCastle(raidLog: string): DreadCastleStatus {
-    return {
-      lab: !!raidLog.match(/unlocked the lab/),
-      roast: !!raidLog.match(/got some roast beast/),
-      banana: !!raidLog.match(/got a wax banana/),
-      agaricus: !!raidLog.match(/got some stinking agaric/),
-    };
+  async getHobopolisStatus(clanId: number): Promise<HobopolisStatus> {
+    const raidLog = await this.getRaidLog(clanId);
+    if (!raidLog) throw "No raidlog";
+    return extractHobopolisStatus(parseRaidLog(raidLog));
   }
 
-  async getDreadStatusOverview(clanId: number): Promise<DreadStatus> {
+  async getSlimeTubeStatus(clanId: number): Promise<SlimeTubeStatus> {
     const raidLog = await this.getRaidLog(clanId);
     if (!raidLog) throw "No raidlog";
-    return this.extractDreadOverview(raidLog);
+    return extractSlimeTubeStatus(parseRaidLog(raidLog));
   }
 
-  async getDetailedDreadStatus(clanId: number): Promise<DetailedDreadStatus> {
+  async getSororityHouseStatus(clanId: number): Promise<SororityHouseStatus> {
     const raidLog = await this.getRaidLog(clanId);
     if (!raidLog) throw "No raidlog";
-    return {
-      overview: this.extractDreadOverview(raidLog),
-      forest: this.extractDreadForest(raidLog),
-      village: this.extractDreadVillage(raidLog),
-      castle: this.extractDreadCastle(raidLog),
-    };
+    return extractSororityHouseStatus(parseRaidLog(raidLog));
   }
 
   async getMissingRaidLogs(clanId: number, parsedRaids: string[]): Promise<string[]> {
-    return await clanActionMutex.runExclusive(async () => {
-      await this.whitelist(clanId);
+    return await this.inClan(clanId, async () => {
       let raidLogs = await this.tryRequestWithLogin("clan_oldraidlogs.php", {});
       let raidIds: string[] = [];
       let row = 0;
@@ -449,6 +465,25 @@ export class KOLClient {
     });
   }
 
+  private async latestFinishedRaidId(): Promise<string | undefined> {
+    const oldLogs = await this.tryRequestWithLogin("clan_oldraidlogs.php", {});
+    return /clan_viewraidlog\.php\?viewlog=(\d+)/.exec(oldLogs)?.[1];
+  }
+
+  // Files away a clan's Dreadsylvania instance and opens a fresh one, returning the id the old one
+  // was filed under, or undefined if the basement didn't let us reset it
+  async resetDread(clanId: number): Promise<string | undefined> {
+    return await this.inClan(clanId, async () => {
+      const before = await this.latestFinishedRaidId();
+      await this.tryRequestWithLogin("clan_basement.php", {
+        action: "resetdread",
+        confirm: "on",
+      });
+      const after = await this.latestFinishedRaidId();
+      return after !== before ? after : undefined;
+    });
+  }
+
   async getFinishedRaidLog(raidId: string) {
     return await this.tryRequestWithLogin("clan_viewraidlog.php", {
       viewlog: raidId,
@@ -457,8 +492,7 @@ export class KOLClient {
   }
 
   async getRaidLog(clanId: number): Promise<string> {
-    return await clanActionMutex.runExclusive(async () => {
-      await this.whitelist(clanId);
+    return await this.inClan(clanId, async () => {
       return await this.tryRequestWithLogin("clan_raidlogs.php", {});
     });
   }
@@ -469,20 +503,165 @@ export class KOLClient {
       action: "joinclan",
       confirm: "on",
     });
+    this._currentClan = id;
+  }
+
+  // Chat relays need OAF to be sitting in one clan, so it heads back there after visiting any other
+  setHomeClan(clanId: number): void {
+    this._homeClan = clanId;
   }
 
-  async addToWhitelist(playerId: string, clanId: number): Promise<void> {
+  private async inClan<T>(clanId: number, task: () => Promise<T>): Promise<T> {
     return await clanActionMutex.runExclusive(async () => {
+      const leavingHome = this._homeClan !== undefined && clanId !== this._homeClan;
+      // Anything said in the home clan's chat has to be collected before we leave it
+      if (leavingHome && this._chatLastSeen) this._chatBuffer.push(...(await this.pollChat()));
       await this.whitelist(clanId);
+      try {
+        return await task();
+      } finally {
+        if (leavingHome) {
+          await this.whitelist(this._homeClan as number);
+          // Whatever arrived while we were away was the other clan's chat, so it's skipped
+          if (this._chatLastSeen) await this.pollChat();
+        }
+      }
+    });
+  }
+
+  async addToWhitelist(playerId: string, clanId: number, level = 2, title = ""): Promise<void> {
+    return await this.inClan(clanId, async () => {
       await this.tryRequestWithLogin("clan_whitelist.php", {
         addwho: playerId,
-        level: 2,
-        title: "",
+        level: level,
+        title: title,
         action: "add",
       });
     });
   }
 
+  async getWhitelist(clanId: number): Promise<Whitelist> {
+    return await this.inClan(clanId, async () => {
+      return parseWhitelist(await this.tryRequestWithLogin("clan_whitelist.php", {}));
+    });
+  }
+
+  // Says whether the player was there to be taken off
+  async removeFromWhitelist(playerId: number, clanId: number): Promise<boolean> {
+    return await this.inClan(clanId, async () => {
+      const whitelist = parseWhitelist(await this.tryRequestWithLogin("clan_whitelist.php", {}));
+      const entry = whitelist.members.find((member) => member.playerId === playerId);
+      if (!entry) return false;
+      // The update form resubmits the row as it stands, with only the drop box ticked
+      await this.tryRequestWithLogin("clan_whitelist.php", {
+        action: "update",
+        player0: playerId,
+        [`level${playerId}`]: entry.level,
+        [`title${playerId}`]: entry.title,
+        [`drop${playerId}`]: "on",
+      });
+      return true;
+    });
+  }
+
+  async getStash(clanId: number): Promise<StashItem[]> {
+    return await this.inClan(clanId, async () => {
+      return parseStash(await this.tryRequestWithLogin("clan_stash.php", {}));
+    });
+  }
+
+  async getStashLog(clanId: number): Promise<StashLogEntry[]> {
+    return await this.inClan(clanId, async () => {
+      return parseStashLog(await this.tryRequestWithLogin("clan_log.php", {}));
+    });
+  }
+
+  private async pollChat(): Promise<ChatMessage[]> {
+    const response = await this.tryRequestWithLogin("newchatmessages.php", {
+      j: 1,
+      lasttime: this._chatLastSeen,
+    });
+    if (!response || typeof response !== "object") return [];
+    this._chatLastSeen = parseInt(response.last) || this._chatLastSeen;
+    return (response.msgs || []).map(parseChatMessage);
+  }
+
+  // Returns everything said in the channels OAF listens to since it last asked, while in its home clan
+  async getChatMessages(): Promise<ChatMessage[]> {
+    return await clanActionMutex.runExclusive(async () => {
+      if (this._homeClan !== undefined && this._currentClan !== this._homeClan) {
+        await this.whitelist(this._homeClan);
+        if (this._chatLastSeen) await this.pollChat();
+      }
+      const firstPoll = !this._chatLastSeen;
+      const messages = [...this._chatBuffer.splice(0), ...(await this.pollChat())];
+      // The first poll hands back recent history, which has been seen already by anyone who cares
+      return firstPoll ? [] : messages;
+    });
+  }
+
+  async sendChat(message: string): Promise<boolean> {
+    return await clanActionMutex.runExclusive(async () => {
+      if (this._homeClan !== undefined && this._currentClan !== this._homeClan) {
+        await this.whitelist(this._homeClan);
+      }
+      const response = await this.tryRequestWithLogin("submitnewchat.php", {
+        graf: message,
+        j: 1,
+      });
+      return !!response && typeof response === "object";
+    });
+  }
+
+  async getKmails(): Promise<Kmail[]> {
+    const kmails = await this.tryRequestWithLogin("api.php", {
+      what: "kmail",
+      for: "OAF Discord bot for Kingdom of Loathing",
+    });
+    if (!Array.isArray(kmails)) return [];
+    return kmails.map(parseKmail);
+  }
+
+  async getKmail(kmailId: number): Promise<Kmail | undefined> {
+    return (await this.getKmails()).find((kmail) => kmail.id === kmailId);
+  }
+
+  async deleteKmails(kmailIds: number[]): Promise<boolean> {
+    if (!kmailIds.length) return true;
+    const selected = Object.fromEntries(kmailIds.map((kmailId) => [`sel${kmailId}`, "on"]));
+    const response = await this.tryRequestWithLogin("messages.php", {
+      the_action: "delete",
+      box: "Inbox",
+      ...selected,
+    });
+    return /messages? deleted/i.test(response);
+  }
+
+  // Recipients can be given by name or by player id
+  async sendKmail(
+    recipient: string | number,
+    message: string,
+    items: Omit<KmailItem, "name">[] = [],
+    meat: number = 0
+  ): Promise<boolean> {
+    if (items.length > MAX_KMAIL_ITEMS)
+      throw `Kmails can't carry more than ${MAX_KMAIL_ITEMS} items`;
+    const attachments = Object.fromEntries(
+      items.flatMap((item, index) => [
+        [`whichitem${index + 1}`, item.id],
+        [`howmany${index + 1}`, item.quantity],
+      ])
+    );
+    const response = await this.tryRequestWithLogin("sendmessage.php", {
+      action: "send",
+      towho: recipient,
+      message: message,
+      sendmeat: meat,
+      ...attachments,
+    });
+    return /Message sent\./.test(response);
+  }
+
   async getLeaderboard(leaderboardId: number): Promise<LeaderboardInfo | undefined> {
     try {
       const leaderboard = await this.tryRequestWithLogin("museum.php", {
@@ -533,6 +712,7 @@ export class KOLClient {
           }),
       };
     } catch (error) {
+      if (error instanceof KoLUnavailableError) throw error;
       return undefined;
     }
   }
@@ -610,10 +790,29 @@ export class KOLClient {
         class: match?.class || "",
       };
     } catch (error) {
+      if (error instanceof KoLUnavailableError) throw error;
       return { id: "", level: 0, class: "Unknown" };
     }
   }
 
+  // The id of the player with exactly this name, ignoring case. KoL only searches by how names
+  // start, so a search for "Bob" also finds "Bobby". Null means KoL showed its search page and
+  // nobody on it has the name; undefined means whatever came back can't be trusted either way.
+  async getPlayerIdByExactName(name: string): Promise<number | null | undefined> {
+    const search = await this.tryRequestWithLogin("searchplayer.php", {
+      searchstring: name.replace(/\_/g, "\\_"),
+      searching: "Yep.",
+      for: "",
+      startswith: 1,
+      hardcoreonly: 0,
+    });
+    if (!search.includes("searchplayer.php")) return undefined;
+    for (const match of search.matchAll(/href="showplayer\.php\?who=(\d+)">(?:<b>)?([^<]+)</gi)) {
+      if (match[2].trim().toLowerCase() === name.toLowerCase()) return parseInt(match[1]);
+    }
+    return null;
+  }
+
   async ensureFamiliar(familiarId: number): Promise<void> {
     await this.tryRequestWithLogin("familiar.php", {
       action: "newfam",
@@ -1,12 +1,29 @@
 import { ApplicationCommandOptionType } from "discord-api-types/v9";
-import { CommandInteraction, MessageEmbed } from "discord.js";
+import {
+  ApplicationCommandOptionChoiceData,
+  CommandInteraction,
+  MessageActionRow,
+  MessageButton,
+  MessageComponentInteraction,
+  MessageEmbed,
+  MessageSelectMenu,
+} from "discord.js";
 import { ItemType, ITEM_SPADING_TYPES, PATH_MAPPINGS, SpadingFamiliars } from "./constants";
-import { DiscordClient } from "./discord";
-import { KOLClient } from "./kolclient";
+import { ComponentId, DiscordClient, PortableInteraction } from "./discord";
+import { oafFooter } from "./guildsettings";
+import { KOLClient, KoLUnavailableError, LeaderboardInfo } from "./kolclient";
+import { SessionState } from "./kolsession";
 import { WikiSearcher } from "./wikisearch";
 
 // This is the maximum number of items we can have in our embeds
 const HORIZON = 25;
+// How many of a leaderboard's boards go on one page. Each can be 1024 characters long, and
+// Discord won't show an embed longer than 6000 all told.
+const LEADERBOARD_PAGE_SIZE = 4;
+const LEADERBOARD_PAGE = new ComponentId("leaderboard", "board", "page");
+const LEADERBOARD_JUMP = new ComponentId("leaderboardjump", "board");
+
+const leaderboardNames: Map<number, string> = new Map();
 
 export function attachKoLCommands(
   client: DiscordClient,
@@ -26,7 +43,7 @@ export function attachKoLCommands(
     item,
     "Find the +item drop required to cap a drop."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "level",
     [
       {
@@ -39,7 +56,7 @@ export function attachKoLCommands(
     level,
     "Find the stats and substats needed for a given level."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "stat",
     [
       {
@@ -52,7 +69,7 @@ export function attachKoLCommands(
     stat,
     "Find the substats and level for a given mainstat total."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "substat",
     [
       {
@@ -65,7 +82,7 @@ export function attachKoLCommands(
     substat,
     "Find the mainstat and level for a given substat total"
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "fairy",
     [
       {
@@ -78,7 +95,7 @@ export function attachKoLCommands(
     fairy,
     "Find the +item drop supplied by a fairy of a given weight."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "leprechaun",
     [
       {
@@ -91,7 +108,7 @@ export function attachKoLCommands(
     lep,
     "Find the +meat drop supplied by a leprechaun of a given weight."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "volleyball",
     [
       {
@@ -104,7 +121,7 @@ export function attachKoLCommands(
     volley,
     "Find the +stat gain supplied by a volleyball of a given weight."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "reversefairy",
     [
       {
@@ -117,7 +134,7 @@ export function attachKoLCommands(
     reverseFairy,
     "Find the weight necessary to supply a given item drop % from a fairy."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "reverseleprechaun",
     [
       {
@@ -130,7 +147,7 @@ export function attachKoLCommands(
     reverseLep,
     "Find the weight necessary to supply a given meat drop % from a leprechaun."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "leaderboard",
     [
       {
@@ -138,11 +155,32 @@ export function attachKoLCommands(
         description: "The name or id of the leaderboard you want to display.",
         type: ApplicationCommandOptionType.String,
         required: true,
+        autocomplete: leaderboardChoices,
       },
     ],
-    (interaction: CommandInteraction) => leaderboard(interaction, kolClient),
+    (interaction: PortableInteraction) => leaderboard(interaction, kolClient),
     "Display the specified leaderboard."
   );
+  client.attachComponent(
+    LEADERBOARD_PAGE,
+    (interaction, { board, page }) =>
+      turnLeaderboardPage(interaction, kolClient, parseInt(board), parseInt(page)),
+    "leaderboard"
+  );
+  client.attachComponent(
+    LEADERBOARD_JUMP,
+    (interaction, { board }) => {
+      if (!interaction.isSelectMenu()) return;
+      const subboard = parseInt(interaction.values[0]);
+      return turnLeaderboardPage(
+        interaction,
+        kolClient,
+        parseInt(board),
+        Math.floor(subboard / LEADERBOARD_PAGE_SIZE)
+      );
+    },
+    "leaderboard"
+  );
   client.attachCommand(
     "spade",
     [
@@ -167,6 +205,12 @@ export function attachKoLCommands(
     (interaction: CommandInteraction) => spade(interaction, kolClient, wikiSearcher),
     "Spade the existence and tradeability of as yet unreleased stuff."
   );
+  client.attachPortableCommand(
+    "kolstatus",
+    [],
+    (interaction: PortableInteraction) => kolStatus(interaction, kolClient),
+    "Show the health of OAF's connection to the Kingdom."
+  );
 }
 
 function item(interaction: CommandInteraction): void {
@@ -186,7 +230,7 @@ function item(interaction: CommandInteraction): void {
   );
 }
 
-function fairy(interaction: CommandInteraction): void {
+function fairy(interaction: PortableInteraction): void {
   const weight = interaction.options.getInteger("weight", true);
   if (weight <= 0) {
     interaction.reply({ content: `Please supply a positive fairy weight.`, ephemeral: true });
@@ -201,7 +245,7 @@ function fairy(interaction: CommandInteraction): void {
   );
 }
 
-function lep(interaction: CommandInteraction): void {
+function lep(interaction: PortableInteraction): void {
   const weight = interaction.options.getInteger("weight", true);
   if (weight <= 0) {
     interaction.reply({ content: `Please supply a positive leprechaun weight.`, ephemeral: true });
@@ -216,7 +260,7 @@ function lep(interaction: CommandInteraction): void {
   );
 }
 
-function volley(interaction: CommandInteraction): void {
+function volley(interaction: PortableInteraction): void {
   const weight = interaction.options.getInteger("weight", true);
   if (weight <= 0) {
     interaction.reply({ content: `Please supply a positive volleyball weight.`, ephemeral: true });
@@ -255,7 +299,7 @@ class StatBlock {
   }
 }
 
-function level(interaction: CommandInteraction): void {
+function level(interaction: PortableInteraction): void {
   const level = interaction.options.getInteger("level", true);
   if (level <= 0) {
     interaction.reply({ content: `Please supply a positive level.`, ephemeral: true });
@@ -280,7 +324,7 @@ function level(interaction: CommandInteraction): void {
   );
 }
 
-function stat(interaction: CommandInteraction): void {
+function stat(interaction: PortableInteraction): void {
   const mainstat = interaction.options.getInteger("stat", true);
   if (mainstat <= 0) {
     interaction.reply({ content: `Please supply a positive mainstat.`, ephemeral: true });
@@ -310,7 +354,7 @@ function stat(interaction: CommandInteraction): void {
   );
 }
 
-function substat(interaction: CommandInteraction): void {
+function substat(interaction: PortableInteraction): void {
   const substat = interaction.options.getInteger("substat", true);
   if (substat <= 0) {
     interaction.reply({ content: `Please supply a positive substat.`, ephemeral: true });
@@ -334,7 +378,7 @@ function substat(interaction: CommandInteraction): void {
   );
 }
 
-function reverseFairy(interaction: CommandInteraction): void {
+function reverseFairy(interaction: PortableInteraction): void {
   const itemDrop = interaction.options.getNumber("item", true);
   if (itemDrop <= 0) {
     interaction.reply({ content: "Please supply a positive item drop value.", ephemeral: true });
@@ -352,7 +396,7 @@ function reverseFairy(interaction: CommandInteraction): void {
   );
 }
 
-function reverseLep(interaction: CommandInteraction): void {
+function reverseLep(interaction: PortableInteraction): void {
   const meatDrop = interaction.options.getNumber("meat", true);
   if (meatDrop <= 0) {
     interaction.reply({ content: "Please supply a positive meat drop value.", ephemeral: true });
@@ -370,7 +414,87 @@ function reverseLep(interaction: CommandInteraction): void {
   );
 }
 
-async function leaderboard(interaction: CommandInteraction, kolClient: KOLClient): Promise<void> {
+// Our names for each leaderboard, with whatever name KoL gave it once we've shown it
+function leaderboardChoices(input: string): ApplicationCommandOptionChoiceData[] {
+  const search = input.toLowerCase().replace(/\W/g, "");
+  const aliases: Map<number, string[]> = new Map();
+  for (const [alias, board] of PATH_MAPPINGS) {
+    aliases.set(board, [...(aliases.get(board) || []), alias]);
+  }
+  return [...aliases.entries()]
+    .filter(
+      ([board, names]) =>
+        names.some((name) => name.includes(search)) ||
+        leaderboardNames.get(board)?.toLowerCase().replace(/\W/g, "").includes(search)
+    )
+    .map(([board, names]) => ({
+      name: leaderboardNames.get(board) ?? names.reduce((a, b) => (b.length > a.length ? b : a)),
+      value: board.toString(),
+    }));
+}
+
+function leaderboardPage(
+  board: number,
+  leaderboardInfo: LeaderboardInfo,
+  page: number,
+  guildId: string | null
+): { content: null; embeds: MessageEmbed[]; components: MessageActionRow[] } {
+  const pages = Math.ceil(leaderboardInfo.boards.length / LEADERBOARD_PAGE_SIZE);
+  const shown = Math.min(Math.max(page, 0), pages - 1);
+  const embed = new MessageEmbed()
+    .setTitle(leaderboardInfo.name || "...")
+    .addFields(
+      leaderboardInfo.boards
+        .slice(shown * LEADERBOARD_PAGE_SIZE, (shown + 1) * LEADERBOARD_PAGE_SIZE)
+        .map((subboard) => {
+          const runs = subboard.runs.map(
+            (run) => `${run.player} - ${run.days ? `${run.days}/` : ""}${run.turns}`
+          );
+          if (runs.length > 12) runs.splice(12, 0, "🥉 Bronze Buttons 🥉");
+          if (runs.length > 1) runs.splice(1, 0, "🥈 Silver Moons 🥈");
+          if (runs.length) runs.splice(0, 0, "🥇 Gold Star 🥇");
+          return {
+            title: subboard.name || "...",
+            name: subboard.name || "...",
+            value: runs.join("\n").slice(0, 1024) || "No runs yet!",
+            inline: true,
+          };
+        })
+    )
+    .setFooter(oafFooter(guildId));
+  if (pages <= 1) return { content: null, embeds: [embed], components: [] };
+  return {
+    content: null,
+    embeds: [embed],
+    components: [
+      new MessageActionRow().addComponents(
+        new MessageButton()
+          .setCustomId(LEADERBOARD_PAGE.encode({ board: board, page: shown - 1 }))
+          .setLabel("Previous")
+          .setStyle("SECONDARY")
+          .setDisabled(shown === 0),
+        new MessageButton()
+          .setCustomId(LEADERBOARD_PAGE.encode({ board: board, page: shown + 1 }))
+          .setLabel("Next")
+          .setStyle("SECONDARY")
+          .setDisabled(shown === pages - 1)
+      ),
+      new MessageActionRow().addComponents(
+        new MessageSelectMenu()
+          .setCustomId(LEADERBOARD_JUMP.encode({ board: board }))
+          .setPlaceholder(`Page ${shown + 1} of ${pages}`)
+          .addOptions(
+            leaderboardInfo.boards.slice(0, 25).map((subboard, index) => ({
+              label: (subboard.name || "...").slice(0, 100),
+              value: index.toString(),
+            }))
+          )
+      ),
+    ],
+  };
+}
+
+async function leaderboard(interaction: PortableInteraction, kolClient: KOLClient): Promise<void> {
   const boardref = interaction.options.getString("leaderboard", true);
 
   let board =
@@ -387,40 +511,30 @@ async function leaderboard(interaction: CommandInteraction, kolClient: KOLClient
         new MessageEmbed()
           .setTitle(leaderboardInfo.name || "...")
           .setDescription("I wasn't able to understand this leaderboard, sorry.")
-          .setFooter({
-            text: "Problems? Message DocRostov#7004 on discord.",
-            iconURL: "http://images.kingdomofloathing.com/itemimages/oaf.gif",
-          }),
+          .setFooter(oafFooter(interaction.guildId)),
       ],
     });
   } else {
-    interaction.editReply({
-      content: null,
-      embeds: [
-        new MessageEmbed()
-          .setTitle(leaderboardInfo.name || "...")
-          .addFields(
-            leaderboardInfo.boards.map((subboard) => {
-              const runs = subboard.runs.map(
-                (run) => `${run.player} - ${run.days ? `${run.days}/` : ""}${run.turns}`
-              );
-              if (runs.length > 12) runs.splice(12, 0, "🥉 Bronze Buttons 🥉");
-              if (runs.length > 1) runs.splice(1, 0, "🥈 Silver Moons 🥈");
-              if (runs.length) runs.splice(0, 0, "🥇 Gold Star 🥇");
-              return {
-                title: subboard.name || "...",
-                name: subboard.name || "...",
-                value: runs.join("\n").slice(0, 1024) || "No runs yet!",
-                inline: true,
-              };
-            })
-          )
-          .setFooter({
-            text: "Problems? Message DocRostov#7004 on discord.",
-            iconURL: "http://images.kingdomofloathing.com/itemimages/oaf.gif",
-          }),
-      ],
-    });
+    leaderboardNames.set(board, leaderboardInfo.name);
+    interaction.editReply(leaderboardPage(board, leaderboardInfo, 0, interaction.guildId));
+  }
+}
+
+// Turning the page reads the leaderboard afresh, so nothing needs remembering between pages
+async function turnLeaderboardPage(
+  interaction: MessageComponentInteraction,
+  kolClient: KOLClient,
+  board: number,
+  page: number
+): Promise<void> {
+  await interaction.deferUpdate();
+  try {
+    const leaderboardInfo = await kolClient.getLeaderboard(board);
+    if (!leaderboardInfo?.boards.length) return;
+    await interaction.editReply(leaderboardPage(board, leaderboardInfo, page, interaction.guildId));
+  } catch (error) {
+    if (!(error instanceof KoLUnavailableError)) throw error;
+    await interaction.followUp({ content: error.message, ephemeral: true });
   }
 }
 
@@ -563,3 +677,46 @@ async function spadeSkills(
 
   interaction.editReply(data.join("\n"));
 }
+
+const SESSION_STATE_DESCRIPTIONS: Record<SessionState, string> = {
+  loggedIn: "Logged in and working normally.",
+  loggedOut: "Not currently logged in. OAF will log in the next time it needs to.",
+  rollover: "KoL is down for rollover. Lookups will start working again once it's back.",
+  maintenance: "KoL is down for maintenance. Lookups will start working again once it's back.",
+  backingOff: "Logging in has been failing, so OAF is waiting a while before trying again.",
+};
+
+function discordTimestamp(time: number): string {
+  return time > 0 ? `<t:${Math.floor(time / 1000)}:R>` : "Never";
+}
+
+async function kolStatus(interaction: PortableInteraction, kolClient: KOLClient): Promise<void> {
+  const health = kolClient.sessionHealth;
+  const fields = [
+    { name: "Last login", value: discordTimestamp(health.lastLogin), inline: true },
+    { name: "Last successful request", value: discordTimestamp(health.lastSuccess), inline: true },
+    { name: "Last failure", value: discordTimestamp(health.lastFailure), inline: true },
+  ];
+  if (health.failures) {
+    fields.push(
+      { name: "Failed logins in a row", value: String(health.failures), inline: true },
+      {
+        name: "Next login attempt",
+        value: discordTimestamp(health.nextLoginAttempt),
+        inline: true,
+      }
+    );
+  }
+  if (health.lastError) {
+    fields.push({ name: "Last error", value: health.lastError.slice(0, 1024), inline: false });
+  }
+  await interaction.reply({
+    embeds: [
+      new MessageEmbed()
+        .setTitle("KoL session status")
+        .setDescription(SESSION_STATE_DESCRIPTIONS[health.state])
+        .addFields(fields)
+        .setFooter(oafFooter(interaction.guildId)),
+    ],
+  });
+}
@@ -0,0 +1,143 @@
+import { Pool } from "pg";
+
+export type KOLCredentials = {
+  fetched: number;
+  sessionCookies?: string;
+  pwdhash?: string;
+};
+
+export type SessionState = "loggedOut" | "loggedIn" | "rollover" | "maintenance" | "backingOff";
+
+export type PageStatus = "ok" | "loggedOut" | "rollover" | "maintenance";
+
+export type SessionHealth = {
+  state: SessionState;
+  lastLogin: number;
+  lastSuccess: number;
+  lastFailure: number;
+  failures: number;
+  nextLoginAttempt: number;
+  lastError?: string;
+};
+
+const BASE_BACKOFF = 30 * 1000;
+const MAX_BACKOFF = 30 * 60 * 1000;
+
+export function classifyPage(page: string): PageStatus {
+  if (/nightly maintenance/i.test(page) || /rollover is in progress/i.test(page)) {
+    return "rollover";
+  }
+  if (/down for maintenance/i.test(page) || /The game is currently closed/i.test(page)) {
+    return "maintenance";
+  }
+  if (
+    /<title>The Kingdom of Loathing<\/title>/.test(page) ||
+    /This script is not available unless you're logged in\./.test(page)
+  ) {
+    return "loggedOut";
+  }
+  return "ok";
+}
+
+// Holds our KoL session across restarts, and decides when it's worth trying to log in again
+export class KOLSession {
+  private _username: string;
+  private _credentials: KOLCredentials = { fetched: -1 };
+  private _health: SessionHealth = {
+    state: "loggedOut",
+    lastLogin: -1,
+    lastSuccess: -1,
+    lastFailure: -1,
+    failures: 0,
+    nextLoginAttempt: -1,
+  };
+  private _databaseClientPool?: Pool;
+
+  constructor(username: string) {
+    this._username = username.toLowerCase();
+  }
+
+  get credentials(): KOLCredentials {
+    return this._credentials;
+  }
+
+  get health(): SessionHealth {
+    return { ...this._health };
+  }
+
+  async attachDatabase(databaseClientPool: Pool): Promise<void> {
+    this._databaseClientPool = databaseClientPool;
+    const saved = await databaseClientPool.query(
+      "SELECT session_cookies, pwdhash, fetched FROM kol_session WHERE username = $1;",
+      [this._username]
+    );
+    if (saved.rows.length) {
+      this._credentials = {
+        fetched: parseInt(saved.rows[0].fetched),
+        sessionCookies: saved.rows[0].session_cookies,
+        pwdhash: saved.rows[0].pwdhash,
+      };
+      this._health.state = "loggedIn";
+      this._health.lastLogin = this._credentials.fetched;
+      console.log("Restored saved KoL session.");
+    }
+  }
+
+  canAttemptLogin(): boolean {
+    return Date.now() >= this._health.nextLoginAttempt;
+  }
+
+  async loggedIn(credentials: KOLCredentials): Promise<void> {
+    this._credentials = credentials;
+    this._health = {
+      ...this._health,
+      state: "loggedIn",
+      lastLogin: credentials.fetched,
+      failures: 0,
+      nextLoginAttempt: -1,
+      lastError: undefined,
+    };
+    if (this._databaseClientPool) {
+      try {
+        await this._databaseClientPool.query(
+          "INSERT INTO kol_session (username, session_cookies, pwdhash, fetched) VALUES ($1, $2, $3, $4) ON CONFLICT (username) DO UPDATE SET session_cookies = $2, pwdhash = $3, fetched = $4;",
+          [this._username, credentials.sessionCookies, credentials.pwdhash, credentials.fetched]
+        );
+      } catch (error) {
+        console.log(error);
+      }
+    }
+  }
+
+  succeeded(): void {
+    this._health.lastSuccess = Date.now();
+    this._health.state = "loggedIn";
+  }
+
+  unavailable(status: PageStatus): void {
+    if (status === "rollover" || status === "maintenance") {
+      this._health.state = status;
+      this._health.lastError =
+        status === "rollover" ? "KoL is down for rollover." : "KoL is down for maintenance.";
+      this._health.lastFailure = Date.now();
+    } else if (status === "loggedOut") {
+      this._health.state = "loggedOut";
+    }
+  }
+
+  failed(error: unknown): void {
+    const failures = this._health.failures + 1;
+    const backoff = Math.min(BASE_BACKOFF * Math.pow(2, failures - 1), MAX_BACKOFF);
+    this._health = {
+      ...this._health,
+      state: ["rollover", "maintenance"].includes(this._health.state)
+        ? this._health.state
+        : "backingOff",
+      lastFailure: Date.now(),
+      failures: failures,
+      nextLoginAttempt: Date.now() + backoff,
+      lastError: String(error),
+    };
+    console.log(`KoL login failed (${failures} in a row), backing off for ${backoff / 1000}s`);
+  }
+}
@@ -1,18 +1,10 @@
 import { ApplicationCommandOptionType } from "discord-api-types/v9";
-import {
-  Client,
-  CommandInteraction,
-  DMChannel,
-  Message,
-  NonThreadGuildBasedChannel,
-  TextChannel,
-} from "discord.js";
-import { Pool } from "pg";
+import { CommandInteraction, Message, NonThreadGuildBasedChannel, TextChannel } from "discord.js";
 import { ORB_RESPONSES, PROJECT_ALIASES, PROJECT_CAPITALISATIONS } from "./constants";
-import { DiscordClient } from "./discord";
+import { DiscordClient, PortableInteraction } from "./discord";
 
-export function attachMiscCommands(client: DiscordClient, databaseConnectionPool: Pool) {
-  client.attachCommand(
+export function attachMiscCommands(client: DiscordClient) {
+  client.attachPortableCommand(
     "orb",
     [
       {
@@ -25,7 +17,7 @@ export function attachMiscCommands(client: DiscordClient, databaseConnectionPool
     orb,
     "Consult OAF's miniature crystal ball."
   );
-  client.attachCommand(
+  client.attachPortableCommand(
     "roll",
     [
       {
@@ -83,28 +75,9 @@ export function attachMiscCommands(client: DiscordClient, databaseConnectionPool
     prsWelcome,
     "Links to the PRs and issues assigned to you for a given LASS project"
   );
-  client.attachCommand(
-    "remind",
-    [
-      {
-        name: "when",
-        description: 'When to remind you (In either the form "1w2d3h4m5s" or "rollover")',
-        type: ApplicationCommandOptionType.String,
-        required: true,
-      },
-      {
-        name: "reminder",
-        description: "What to remind you",
-        type: ApplicationCommandOptionType.String,
-        required: false,
-      },
-    ],
-    (interaction) => createReminder(interaction, databaseConnectionPool),
-    "Sets a reminder"
-  );
 }
 
-function orb(interaction: CommandInteraction): void {
+function orb(interaction: PortableInteraction): void {
   const question = interaction.options.getString("asktheorb");
   interaction.reply({
     content: `${
@@ -118,7 +91,7 @@ function orb(interaction: CommandInteraction): void {
   });
 }
 
-function roll(interaction: CommandInteraction): void {
+function roll(interaction: PortableInteraction): void {
   const diceCount = interaction.options.getInteger("count", true);
   const diceSize = interaction.options.getInteger("size", true);
   if (diceCount > 100)
@@ -164,7 +137,7 @@ async function purge(
 }
 
 const _projectOrgs: { [key: string]: string } = {
-  "kolmafia": "kolmafia",
+  kolmafia: "kolmafia",
 };
 
 async function guessOrg(project: string) {
@@ -192,133 +165,3 @@ async function prsWelcome(interaction: CommandInteraction): Promise<void> {
     },
   });
 }
-
-const timeMatcher =
-  /^(?<weeks>\d+w)?(?<days>\d+d)?(?<hours>\d+h)?(?<minutes>\d+m)?(?<seconds>\d+s)?$/;
-
-async function createReminder(interaction: CommandInteraction, databaseConnectionPool: Pool) {
-  const time = interaction.options.getString("when", true);
-  const reminderText = interaction.options.getString("reminder") || "Time's up!";
-  if (!timeMatcher.test(time) && time.toLowerCase() !== "rollover") {
-    interaction.reply({
-      content: 'You must supply a time to wait in the form of "1w2d3h4m5s" or "rollover".',
-      ephemeral: true,
-    });
-    return;
-  }
-  if (reminderText.length > 127) {
-    interaction.reply({
-      content: "Maximum reminder length is 128 characters.",
-      ephemeral: true,
-    });
-    return;
-  }
-  let timeToWait = 0;
-  let reminderTime = 0;
-  if (timeMatcher.test(time)) {
-    const timeMatch = timeMatcher.exec(time);
-    timeToWait =
-      7 * 24 * 60 * 60 * 1000 * parseInt(timeMatch?.groups?.weeks || "0") +
-      24 * 60 * 60 * 1000 * parseInt(timeMatch?.groups?.days || "0") +
-      60 * 60 * 1000 * parseInt(timeMatch?.groups?.hours || "0") +
-      60 * 1000 * parseInt(timeMatch?.groups?.minutes || "0") +
-      1000 * parseInt(timeMatch?.groups?.seconds || "0");
-    reminderTime = Date.now() + timeToWait;
-    await interaction.reply(`Okay, I'll remind you in ${time}.`);
-  } else {
-    reminderTime = new Date(Date.now()).setHours(3, 40);
-    if (reminderTime < Date.now()) {
-      reminderTime += 24 * 60 * 60 * 1000;
-    }
-    timeToWait = reminderTime - Date.now();
-    await interaction.reply(`Okay, I'll remind you after rollover.`);
-  }
-
-  const reply_id = (await interaction.fetchReply()).id;
-
-  if (timeToWait < 7 * 24 * 60 * 60 * 1000) {
-    setTimeout(async () => {
-      try {
-        ((interaction.channel as TextChannel) || (await interaction.user.createDM())).send({
-          content: `<@${interaction.user.id}>`,
-          embeds: [{ title: "⏰⏰⏰", description: reminderText }],
-          reply: { messageReference: reply_id },
-          allowedMentions: {
-            users: [interaction.user.id],
-          },
-        });
-      } catch (error) {
-        console.log(error);
-      }
-    }, timeToWait);
-    await databaseConnectionPool.query(
-      "INSERT INTO reminders(guild_id, channel_id, user_id, interaction_reply_id, message_contents, reminder_time) VALUES ($1, $2, $3, $4, $5, $6);",
-      [
-        interaction.guildId,
-        interaction.channelId,
-        interaction.user.id,
-        reply_id,
-        reminderText,
-        reminderTime,
-      ]
-    );
-  }
-}
-
-export async function syncReminders(databaseConnectionPool: Pool, discordClient: Client) {
-  const now = Date.now();
-  const connection = await databaseConnectionPool.connect();
-  await connection.query("BEGIN;");
-  await connection.query("DELETE FROM reminders WHERE reminder_time < $1;", [now]);
-  const reminders = await connection.query("SELECT * FROM reminders", []);
-  await connection.query("COMMIT;");
-  connection.release();
-  for (let reminder of reminders.rows) {
-    if (reminder.guild_id) {
-      if (reminder.reminder_time - now < 7 * 24 * 60 * 60 * 1000) {
-        const guild = await discordClient.guilds.fetch(reminder.guild_id);
-        const channel = await guild.channels.fetch(reminder.channel_id);
-        setTimeout(() => {
-          try {
-            (channel as TextChannel).send({
-              content: `<@${reminder.user_id}>`,
-              embeds: [{ title: "⏰⏰⏰", description: reminder.message_contents }],
-              allowedMentions: {
-                users: [reminder.user_id],
-              },
-              ...(reminder.interaction_reply_id
-                ? { reply: { messageReference: reminder.interaction_reply_id } }
-                : {}),
-            });
-          } catch (error) {
-            console.log(error);
-          }
-        }, reminder.reminder_time - now);
-      }
-    } else {
-      if (reminder.reminder_time - now < 7 * 24 * 60 * 60 * 1000) {
-        const user = await discordClient.users.fetch(reminder.user_id);
-        const channel = await user.createDM();
-        setTimeout(() => {
-          try {
-            (channel as DMChannel).send({
-              content: `<@${reminder.user_id}>`,
-              embeds: [{ title: "⏰⏰⏰", description: reminder.message_contents }],
-              allowedMentions: {
-                users: [reminder.user_id],
-              },
-              ...(reminder.interaction_reply_id
-                ? { reply: { messageReference: reminder.interaction_reply_id } }
-                : {}),
-            });
-          } catch (error) {
-            console.log(error);
-          }
-        }, reminder.reminder_time - now);
-      }
-    }
-  }
-  setTimeout(async () => {
-    await syncReminders(databaseConnectionPool, discordClient);
-  }, 7 * 24 * 60 * 60 * 1000);
-}
@@ -0,0 +1,328 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import {
+  CommandInteraction,
+  Guild,
+  GuildMember,
+  GuildMemberRoleManager,
+  Interaction,
+  Permissions,
+} from "discord.js";
+import { Pool } from "pg";
+import { DiscordClient } from "./discord";
+
+type Permission = {
+  guildId: string;
+  command: string;
+  targetType: "role" | "user";
+  targetId: string;
+};
+
+// Permissions stored under this guild are copied into each server the first time OAF sees it,
+// and are the ones that apply to commands run outside of any server
+const TEMPLATE_GUILD = "*";
+
+// These reach into every managed clan rather than just the ones a server follows, so they can only
+// be used in OAF's home server, however much someone is trusted anywhere else
+const HOME_COMMANDS = [
+  "whitelist",
+  "unwhitelist",
+  "whitelisted",
+  "resetdread",
+  "addclan",
+  "removeclan",
+  "editclan",
+  "stash",
+  "stashlog",
+];
+
+// These manage OAF itself, its clans and who can do what, so only server admins can use them until
+// they're granted. Otherwise revoking the last grant would open them to everyone, who could then
+// grant themselves anything.
+const ADMIN_COMMANDS = [
+  "whitelist",
+  "unwhitelist",
+  "whitelisted",
+  "resetdread",
+  "addclan",
+  "removeclan",
+  "editclan",
+  "grant",
+  "revoke",
+  "config",
+  "rolepanel",
+  "editpanel",
+  "removepanel",
+  "rolebind",
+  "roleunbind",
+];
+
+let permissions: Permission[] = [];
+
+export async function syncPermissions(databaseClientPool: Pool): Promise<void> {
+  permissions = (await databaseClientPool.query("SELECT * FROM command_permissions;")).rows.map(
+    (row) => ({
+      guildId: row.guild_id,
+      command: row.command,
+      targetType: row.target_type,
+      targetId: row.target_id,
+    })
+  );
+}
+
+// Whoever is running a command, from a Discord interaction or from KoL chat, where there's no server
+type Invoker = {
+  guildId: string | null;
+  user: { id: string };
+  guild?: Interaction["guild"];
+  member?: Interaction["member"];
+};
+
+// A command anyone can use has no permissions at all; once it has one, only those it names can use it.
+// Admin commands with no permissions are left to admins. Whoever owns or administers a server can
+// always use everything, so nobody can lock themselves out.
+export function isPermitted(interaction: Invoker, command: string): boolean {
+  if (!isAvailableIn(interaction.guildId, command)) return false;
+  const guildId = interaction.guildId ?? TEMPLATE_GUILD;
+  const rules = permissions.filter(
+    (permission) => permission.guildId === guildId && permission.command === command
+  );
+  if (!rules.length && !ADMIN_COMMANDS.includes(command)) return true;
+  if (interaction.guild?.ownerId === interaction.user.id) return true;
+  const member = interaction.member;
+  if (member instanceof GuildMember && member.permissions.has(Permissions.FLAGS.ADMINISTRATOR)) {
+    return true;
+  }
+  const roles = member?.roles as GuildMemberRoleManager | undefined;
+  return rules.some((rule) =>
+    rule.targetType === "user"
+      ? rule.targetId === interaction.user.id
+      : !!roles?.cache.has(rule.targetId)
+  );
+}
+
+export function isAvailableIn(guildId: string | null, command: string): boolean {
+  return !HOME_COMMANDS.includes(command) || (!!guildId && guildId === process.env.HOME_GUILD_ID);
+}
+
+// Why a role can't be handed out by whoever is setting it up, if it can't. Like Discord's own rule
+// for managing roles, it has to be below their highest role unless they own the server, and OAF
+// can only give out roles below its own.
+export function roleProblem(interaction: CommandInteraction, roleId: string): string | undefined {
+  const guild = interaction.guild;
+  const role = guild?.roles.cache.get(roleId);
+  if (!guild || !role) return "That isn't a role in this server.";
+  if (role.id === guild.roles.everyone.id || role.managed) return "That role can't be handed out.";
+  if (!role.editable) return "I can only hand out roles below my own highest role.";
+  if (guild.ownerId === interaction.user.id) return undefined;
+  const member = interaction.member;
+  if (!(member instanceof GuildMember) || member.roles.highest.comparePositionTo(role) <= 0) {
+    return "You can only hand out roles below your own highest role.";
+  }
+  return undefined;
+}
+
+async function adoptTemplate(databaseClientPool: Pool, guild: Guild): Promise<void> {
+  const adopted = await databaseClientPool.query(
+    "INSERT INTO permission_guilds (guild_id) VALUES ($1) ON CONFLICT DO NOTHING;",
+    [guild.id]
+  );
+  if (!adopted.rowCount) return;
+  await databaseClientPool.query(
+    "INSERT INTO command_permissions (guild_id, command, target_type, target_id) SELECT $1, command, target_type, target_id FROM command_permissions WHERE guild_id = $2 ON CONFLICT DO NOTHING;",
+    [guild.id, TEMPLATE_GUILD]
+  );
+  await syncPermissions(databaseClientPool);
+}
+
+export function attachPermissionCommands(discordClient: DiscordClient, databaseClientPool: Pool) {
+  const client = discordClient.client();
+  client.on("ready", async () => {
+    for (const guild of client.guilds.cache.values()) {
+      await adoptTemplate(databaseClientPool, guild);
+    }
+  });
+  client.on("guildCreate", (guild: Guild) => adoptTemplate(databaseClientPool, guild));
+
+  const commandChoices = (input: string) =>
+    discordClient
+      .commandNames()
+      .filter((name) => name.includes(input.toLowerCase()))
+      .map((name) => ({ name: name, value: name }));
+  const targetOptions = [
+    {
+      name: "role",
+      description: "The role to change.",
+      type: ApplicationCommandOptionType.Role,
+      required: false,
+    },
+    {
+      name: "user",
+      description: "The user to change.",
+      type: ApplicationCommandOptionType.User,
+      required: false,
+    },
+  ];
+  discordClient.attachCommand(
+    "grant",
+    [
+      {
+        name: "command",
+        description: "The command to let them use.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: commandChoices,
+      },
+      ...targetOptions,
+    ],
+    (interaction: CommandInteraction) => grant(interaction, discordClient, databaseClientPool),
+    "Let a role or user use a command, and stop everyone else who hasn't been let."
+  );
+  discordClient.attachCommand(
+    "revoke",
+    [
+      {
+        name: "command",
+        description: "The command to stop them using.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: commandChoices,
+      },
+      ...targetOptions,
+    ],
+    (interaction: CommandInteraction) => revoke(interaction, databaseClientPool),
+    "Stop a role or user using a command they were granted."
+  );
+  discordClient.attachCommand(
+    "permissions",
+    [
+      {
+        name: "command",
+        description: "Only show who can use this command.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: commandChoices,
+      },
+    ],
+    listPermissions,
+    "List which commands are limited to certain roles or users in this server."
+  );
+}
+
+// The role or user a grant or revoke is about, as long as exactly one was given
+function permissionTarget(
+  interaction: CommandInteraction
+): { targetType: "role" | "user"; targetId: string; mention: string } | undefined {
+  const role = interaction.options.getRole("role", false);
+  const user = interaction.options.getUser("user", false);
+  if (!role === !user) return undefined;
+  return role
+    ? { targetType: "role", targetId: role.id, mention: `<@&${role.id}>` }
+    : { targetType: "user", targetId: user!.id, mention: `<@${user!.id}>` };
+}
+
+async function grant(
+  interaction: CommandInteraction,
+  discordClient: DiscordClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  const command = interaction.options.getString("command", true).replace(/^\//, "").toLowerCase();
+  const target = permissionTarget(interaction);
+  if (!interaction.guildId) {
+    interaction.reply({ content: "Permissions can only be changed in a server.", ephemeral: true });
+    return;
+  }
+  if (!discordClient.command(command)) {
+    interaction.reply({ content: `There's no /${command} command.`, ephemeral: true });
+    return;
+  }
+  if (!target) {
+    interaction.reply({ content: "Pick either a role or a user.", ephemeral: true });
+    return;
+  }
+  const restricted = permissions.some(
+    (permission) => permission.guildId === interaction.guildId && permission.command === command
+  );
+  await databaseClientPool.query(
+    "INSERT INTO command_permissions (guild_id, command, target_type, target_id) VALUES ($1, $2, $3, $4) ON CONFLICT DO NOTHING;",
+    [interaction.guildId, command, target.targetType, target.targetId]
+  );
+  await syncPermissions(databaseClientPool);
+  interaction.reply({
+    content: `${target.mention} can now use /${command}.${
+      restricted ? "" : ` Nobody else can, apart from server admins, until they're granted it too.`
+    }`,
+    allowedMentions: { parse: [] },
+  });
+}
+
+async function revoke(interaction: CommandInteraction, databaseClientPool: Pool): Promise<void> {
+  const command = interaction.options.getString("command", true).replace(/^\//, "").toLowerCase();
+  const target = permissionTarget(interaction);
+  if (!interaction.guildId) {
+    interaction.reply({ content: "Permissions can only be changed in a server.", ephemeral: true });
+    return;
+  }
+  if (!target) {
+    interaction.reply({ content: "Pick either a role or a user.", ephemeral: true });
+    return;
+  }
+  const removed = await databaseClientPool.query(
+    "DELETE FROM command_permissions WHERE guild_id = $1 AND command = $2 AND target_type = $3 AND target_id = $4;",
+    [interaction.guildId, command, target.targetType, target.targetId]
+  );
+  if (!removed.rowCount) {
+    interaction.reply({
+      content: `${target.mention} wasn't granted /${command}.`,
+      ephemeral: true,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+  await syncPermissions(databaseClientPool);
+  const restricted = permissions.some(
+    (permission) => permission.guildId === interaction.guildId && permission.command === command
+  );
+  interaction.reply({
+    content: `${target.mention} can no longer use /${command}.${
+      restricted
+        ? ""
+        : ADMIN_COMMANDS.includes(command)
+        ? ` Nobody else was granted it either, so now only server admins can.`
+        : ` Nobody else was granted it either, so now everyone can.`
+    }`,
+    allowedMentions: { parse: [] },
+  });
+}
+
+async function listPermissions(interaction: CommandInteraction): Promise<void> {
+  const command = interaction.options.getString("command", false)?.replace(/^\//, "").toLowerCase();
+  const rules = permissions.filter(
+    (permission) =>
+      permission.guildId === (interaction.guildId ?? TEMPLATE_GUILD) &&
+      (!command || permission.command === command)
+  );
+  if (!rules.length) {
+    interaction.reply({
+      content: !command
+        ? "Nobody has been granted any commands, so only server admins can use the admin ones."
+        : ADMIN_COMMANDS.includes(command)
+        ? `Only server admins can use /${command}.`
+        : `Everyone can use /${command}.`,
+      ephemeral: true,
+    });
+    return;
+  }
+  const byCommand: Map<string, string[]> = new Map();
+  for (const rule of rules) {
+    const mention = rule.targetType === "role" ? `<@&${rule.targetId}>` : `<@${rule.targetId}>`;
+    byCommand.set(rule.command, [...(byCommand.get(rule.command) || []), mention]);
+  }
+  interaction.reply({
+    content: [...byCommand.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, mentions]) => `**/${name}**: ${mentions.join(", ")}`)
+      .join("\n"),
+    ephemeral: true,
+    allowedMentions: { parse: [] },
+  });
+}
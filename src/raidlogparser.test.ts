@@ -0,0 +1,57 @@
+import { strict as assert } from "assert";
+import { readFileSync } from "fs";
+import { test } from "node:test";
+import { join } from "path";
+import { eventsFor, parseRaidLog } from "./raidlogparser";
+
+const fixture = (page: string) =>
+  readFileSync(join(__dirname, "..", "fixtures", "kingdom", `${page}.html`), "utf-8");
+
+test("reads every run and event from the current raid logs", () => {
+  const raidLog = parseRaidLog(fixture("clan_raidlogs"));
+  assert.deepEqual(
+    raidLog.runs.map((run) => run.dungeon),
+    ["Dreadsylvania", "Hobopolis", "The Slime Tube"]
+  );
+  assert.equal(raidLog.events.length, 31);
+  assert.equal(eventsFor(raidLog, "Dreadsylvania").length, 18);
+  assert.equal(eventsFor(raidLog, "Hobopolis").length, 11);
+  assert.equal(eventsFor(raidLog, "The Slime Tube").length, 2);
+});
+
+test("reads the player, count and turns of each event", () => {
+  const raidLog = parseRaidLog(fixture("clan_raidlogs"));
+  assert.deepEqual(raidLog.events[0], {
+    dungeon: "Dreadsylvania",
+    zone: "The Woods",
+    player: "Captain Scotch",
+    playerId: 1234567,
+    action: "defeated bugbear",
+    count: 302,
+    turns: 302,
+  });
+  const machine = raidLog.events.find((event) => event.action.startsWith("used The Machine"));
+  assert.equal(machine?.player, "Phillammon");
+  assert.equal(machine?.count, 1);
+});
+
+test("reads the kill totals the page reports", () => {
+  const raidLog = parseRaidLog(fixture("clan_raidlogs"));
+  assert.deepEqual(
+    [...raidLog.kills.entries()],
+    [
+      ["Forest", 1000],
+      ["Village", 812],
+      ["Castle", 355],
+    ]
+  );
+});
+
+test("reads finished raid logs", () => {
+  const raidLog = parseRaidLog(fixture("clan_viewraidlog"));
+  assert.deepEqual(raidLog.runs, [
+    { dungeon: "Dreadsylvania", period: "December 1, 2022 - December 13, 2022" },
+  ]);
+  assert.equal(raidLog.events.length, 7);
+  assert.equal(raidLog.kills.size, 0);
+});
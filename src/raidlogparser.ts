@@ -0,0 +1,95 @@
+import { decode } from "html-entities";
+import { RAID_ZONES } from "./constants";
+
+export type RaidLogEvent = {
+  dungeon: string;
+  zone: string;
+  player: string;
+  playerId: number;
+  action: string;
+  count: number;
+  turns: number;
+};
+
+export type RaidRun = {
+  dungeon: string;
+  period: string;
+};
+
+export type RaidLog = {
+  runs: RaidRun[];
+  events: RaidLogEvent[];
+  // The running totals the page reports itself, e.g. "Your clan has defeated 412 monster(s) in the Forest."
+  kills: Map<string, number>;
+};
+
+const RUN_MATCHER = /<b>([A-Za-z' ]+?) run, ([^<]*)<\/b>/g;
+const ZONE_MATCHER = /<b>([^<]+?):<\/b>\s*<blockquote>([\s\S]*?)<\/blockquote>/g;
+const TOTAL_MATCHER = /Your clan has defeated <b>([\d,]+)<\/b> monster\(s\) in the (\w+)/g;
+const EVENT_MATCHER =
+  /^(?<player>.+?) \(#(?<id>\d+)\) (?<action>.+?)(?: x (?<count>[\d,]+))?(?: \((?<turns>[\d,]+) turns?\))?$/;
+
+function toNumber(value: string | undefined, fallback: number): number {
+  return value ? parseInt(value.replace(/,/g, "")) : fallback;
+}
+
+function parseEvent(line: string, dungeon: string, zone: string): RaidLogEvent | undefined {
+  const match = EVENT_MATCHER.exec(line);
+  if (!match?.groups) return undefined;
+  return {
+    dungeon: dungeon,
+    zone: zone,
+    player: match.groups.player,
+    playerId: parseInt(match.groups.id),
+    action: match.groups.action,
+    count: toNumber(match.groups.count, 1),
+    turns: toNumber(match.groups.turns, 0),
+  };
+}
+
+function parseZones(html: string, dungeon: string | undefined): RaidLogEvent[] {
+  const events: RaidLogEvent[] = [];
+  for (const [, zoneName, entries] of html.matchAll(ZONE_MATCHER)) {
+    const zone = decode(zoneName).trim();
+    // Zone names are more reliable than run headers, which KoL words differently in different places
+    const zoneDungeon = RAID_ZONES.get(zone) ?? dungeon ?? "Unknown";
+    for (const entry of entries.split(/<br\s*\/?>/i)) {
+      const line = decode(entry.replace(/<[^>]+>/g, ""))
+        .replace(/\s+/g, " ")
+        .trim();
+      if (!line) continue;
+      const event = parseEvent(line, zoneDungeon, zone);
+      if (event) events.push(event);
+    }
+  }
+  return events;
+}
+
+// Works on both the current logs from clan_raidlogs.php and finished ones from clan_viewraidlog.php
+export function parseRaidLog(html: string): RaidLog {
+  const runs: RaidRun[] = [];
+  const events: RaidLogEvent[] = [];
+  const kills: Map<string, number> = new Map();
+
+  const runHeaders = [...html.matchAll(RUN_MATCHER)];
+  if (runHeaders.length) {
+    runHeaders.forEach((header, index) => {
+      const dungeon = decode(header[1]).trim();
+      const end = index + 1 < runHeaders.length ? runHeaders[index + 1].index : html.length;
+      runs.push({ dungeon: dungeon, period: decode(header[2]).trim() });
+      events.push(...parseZones(html.slice(header.index, end), dungeon));
+    });
+  } else {
+    events.push(...parseZones(html, undefined));
+  }
+
+  for (const [, total, area] of html.matchAll(TOTAL_MATCHER)) {
+    kills.set(area, toNumber(total, 0));
+  }
+
+  return { runs: runs, events: events, kills: kills };
+}
+
+export function eventsFor(raidLog: RaidLog, dungeon: string): RaidLogEvent[] {
+  return raidLog.events.filter((event) => event.dungeon === dungeon);
+}
@@ -1,62 +1,52 @@
 import { ApplicationCommandOptionType } from "discord-api-types/v9";
-import { CommandInteraction, GuildMemberRoleManager, MessageEmbed } from "discord.js";
+import {
+  AutocompleteInteraction,
+  CommandInteraction,
+  Message,
+  MessageActionRow,
+  MessageButton,
+  MessageComponentInteraction,
+  MessageEmbed,
+  Util,
+} from "discord.js";
 import { Pool } from "pg";
-import { DREAD_BOSS_MAPPINGS, KILLMATCHER, SKILLMATCHER } from "./constants";
-import { DiscordClient } from "./discord";
-import { KOLClient } from "./kolclient";
-
-type Clan = {
-  name: string;
-  synonyms: string[];
-  id: number;
-};
-
-const dreadClans: Clan[] = [
-  {
-    name: "Collaborative Dungeon Running 1",
-    synonyms: ["cdr1", "1"],
-    id: 2047008362,
-  },
-  {
-    name: "Collaborative Dungeon Running 2",
-    synonyms: ["cdr2", "2"],
-    id: 2047008363,
-  },
-];
-
-const nonDreadClans: Clan[] = [
-  {
-    name: "Collaborative Dungeon Running Central",
-    synonyms: ["central"],
-    id: 2047008364,
-  },
-];
-
-const allClans = dreadClans.concat(nonDreadClans);
+import { DREAD_BOSS_MAPPINGS } from "./constants";
+import { DungeonFighter } from "./basement";
+import { getLinkedDiscordId, getLinkedPlayer } from "./accounts";
+import { Clan, clanChoices, findClan, getClans } from "./clans";
+import { ComponentId, DiscordClient, PortableInteraction } from "./discord";
+import { oafFooter } from "./guildsettings";
+import { DreadParticipation, dreadRunEnded, extractDreadParticipation } from "./dread";
+import { KOLClient, KoLUnavailableError } from "./kolclient";
+import { parseRaidLog, RaidLog } from "./raidlogparser";
 
 let parsedRaids: string[] = [];
 
+// The raid id of the row holding whatever a player had before raids were recorded one by one
+const BASELINE_RAID = "baseline";
+
 type PlayerData = {
-  id?: string;
+  username: string;
   kills: number;
   skills: number;
   brainiac: boolean;
 };
 
-const killMap: Map<string, PlayerData> = new Map();
+// Keyed by player id, as names can change but ids can't
+const killMap: Map<number, PlayerData> = new Map();
 
 export function attachClanCommands(
   discordClient: DiscordClient,
   kolClient: KOLClient,
   databaseClientPool: Pool
 ) {
-  discordClient.attachCommand(
+  discordClient.attachPortableCommand(
     "status",
     [],
-    (interaction: CommandInteraction) => clanStatus(interaction, kolClient),
+    (interaction: PortableInteraction) => clanStatus(interaction, kolClient),
     "Get the current status of all monitored Dreadsylvania instances."
   );
-  discordClient.attachCommand(
+  discordClient.attachPortableCommand(
     "clan",
     [
       {
@@ -64,28 +54,95 @@ export function attachClanCommands(
         description: "The clan whose status you wish to check.",
         type: ApplicationCommandOptionType.String,
         required: true,
+        autocomplete: (input: string, interaction: AutocompleteInteraction) =>
+          clanChoices(input, "dreadsylvania", interaction.guildId),
       },
     ],
-    (interaction: CommandInteraction) => detailedClanStatus(interaction, kolClient),
+    (interaction: PortableInteraction) => detailedClanStatus(interaction, kolClient),
     "Get a detailed current status of the specified Dreadsylvania instance."
   );
-  discordClient.attachCommand(
+  discordClient.attachPortableCommand(
+    "hobo",
+    [
+      {
+        name: "clan",
+        description: "The clan whose Hobopolis instance you wish to check.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: (input: string, interaction: AutocompleteInteraction) =>
+          clanChoices(input, "hobopolis", interaction.guildId),
+      },
+    ],
+    (interaction: PortableInteraction) => hobopolisStatus(interaction, kolClient),
+    "Get the current status of the specified Hobopolis instance."
+  );
+  discordClient.attachPortableCommand(
+    "slime",
+    [
+      {
+        name: "clan",
+        description: "The clan whose Slime Tube you wish to check.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: (input: string, interaction: AutocompleteInteraction) =>
+          clanChoices(input, "slimetube", interaction.guildId),
+      },
+    ],
+    (interaction: PortableInteraction) => slimeTubeStatus(interaction, kolClient),
+    "Get the current status of the specified Slime Tube."
+  );
+  discordClient.attachPortableCommand(
+    "sorority",
+    [
+      {
+        name: "clan",
+        description: "The clan whose Haunted Sorority House you wish to check.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: (input: string, interaction: AutocompleteInteraction) =>
+          clanChoices(input, "sorority", interaction.guildId),
+      },
+    ],
+    (interaction: PortableInteraction) => sororityHouseStatus(interaction, kolClient),
+    "Get the current status of the specified Haunted Sorority House."
+  );
+  discordClient.attachPortableCommand(
     "skills",
-    [],
-    (interaction: CommandInteraction) => getSkills(interaction, kolClient, databaseClientPool),
+    [
+      {
+        name: "ping",
+        description: "Mention everyone owed skills who has linked their account.",
+        type: ApplicationCommandOptionType.Boolean,
+        required: false,
+      },
+    ],
+    (interaction: PortableInteraction) => getSkills(interaction, kolClient, databaseClientPool),
     "Get a list of everyone currently elgible for Dreadsylvania skills."
   );
+  discordClient.attachPortableCommand(
+    "skillhistory",
+    [
+      {
+        name: "player",
+        description: "The player whose Dreadsylvania history you wish to see, if not yourself.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+    ],
+    (interaction: PortableInteraction) => skillHistory(interaction, kolClient, databaseClientPool),
+    "Show how a player's owed Dreadsylvania skills were worked out, dungeon by dungeon."
+  );
   discordClient.attachCommand(
     "done",
     [
       {
         name: "player",
-        description: "The player to set as done with skills.",
+        description: "The player to set as done with skills, if not yourself.",
         type: ApplicationCommandOptionType.String,
-        required: true,
+        required: false,
       },
     ],
-    (interaction: CommandInteraction) => setDone(interaction, databaseClientPool),
+    (interaction: CommandInteraction) => setDone(interaction, kolClient, databaseClientPool),
     "Set a player as done with Dreadsylvania skills."
   );
   discordClient.attachCommand(
@@ -93,12 +150,12 @@ export function attachClanCommands(
     [
       {
         name: "player",
-        description: "The player to set as not done with skills.",
+        description: "The player to set as not done with skills, if not yourself.",
         type: ApplicationCommandOptionType.String,
-        required: true,
+        required: false,
       },
     ],
-    (interaction: CommandInteraction) => setNotDone(interaction, databaseClientPool),
+    (interaction: CommandInteraction) => setNotDone(interaction, kolClient, databaseClientPool),
     "Set a player as not done with Dreadsylvania skills."
   );
   discordClient.attachCommand(
@@ -106,12 +163,12 @@ export function attachClanCommands(
     [
       {
         name: "player",
-        description: "The player to set as always available for brain draining.",
+        description: "The player to set as always available for brain draining, if not yourself.",
         type: ApplicationCommandOptionType.String,
-        required: true,
+        required: false,
       },
     ],
-    (interaction: CommandInteraction) => setbrainiac(interaction, databaseClientPool),
+    (interaction: CommandInteraction) => setbrainiac(interaction, kolClient, databaseClientPool),
     "Set a player as always available for Dreadsylvania skills."
   );
   discordClient.attachCommand(
@@ -119,18 +176,18 @@ export function attachClanCommands(
     [
       {
         name: "player",
-        description: "The player to unset as always available for brain draining.",
+        description: "The player to unset as always available for brain draining, if not yourself.",
         type: ApplicationCommandOptionType.String,
-        required: true,
+        required: false,
       },
     ],
-    (interaction: CommandInteraction) => setUnbrainiac(interaction, databaseClientPool),
+    (interaction: CommandInteraction) => setUnbrainiac(interaction, kolClient, databaseClientPool),
     "Unset a player as always available for Dreadsylvania skills."
   );
-  discordClient.attachCommand(
+  discordClient.attachPortableCommand(
     "brains",
     [],
-    (interaction: CommandInteraction) => getBrains(interaction, kolClient),
+    (interaction: PortableInteraction) => getBrains(interaction, kolClient),
     "Find players whose brains can be drained for Dreadsylvania skills."
   );
   discordClient.attachCommand(
@@ -142,9 +199,76 @@ export function attachClanCommands(
         type: ApplicationCommandOptionType.String,
         required: true,
       },
+      {
+        name: "clan",
+        description: "Only add them to this clan's whitelist, rather than every clan's.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: (input: string) => clanChoices(input),
+      },
+      {
+        name: "rank",
+        description: "The name of the rank to give them in each clan (defaults to Normal Member).",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+      {
+        name: "title",
+        description: "The title to give them in each clan.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
     ],
     (interaction: CommandInteraction) => whitelist(interaction, kolClient),
-    "Adds a player to the Dreadsylvania clan whitelists."
+    "Adds a player to the managed clan whitelists."
+  );
+  discordClient.attachCommand(
+    "unwhitelist",
+    [
+      {
+        name: "player",
+        description: "The name or #id of the player to take off the whitelists.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+      },
+      {
+        name: "clan",
+        description: "Only take them off this clan's whitelist, rather than every clan's.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: (input: string) => clanChoices(input),
+      },
+    ],
+    (interaction: CommandInteraction) => unwhitelist(interaction, kolClient),
+    "Removes a player from the managed clan whitelists."
+  );
+  discordClient.attachCommand(
+    "whitelisted",
+    [
+      {
+        name: "clan",
+        description: "Only list this clan's whitelist, rather than every clan's.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: (input: string) => clanChoices(input),
+      },
+    ],
+    (interaction: CommandInteraction) => whitelisted(interaction, kolClient),
+    "Lists who is on the managed clan whitelists."
+  );
+  discordClient.attachCommand(
+    "resetdread",
+    [
+      {
+        name: "clan",
+        description: "The clan whose finished Dreadsylvania instance should be reset.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: (input: string) => clanChoices(input, "dreadsylvania"),
+      },
+    ],
+    (interaction: CommandInteraction) => resetDread(interaction, kolClient, databaseClientPool),
+    "Resets a clan's Dreadsylvania instance once it's finished."
   );
 }
 
@@ -154,20 +278,138 @@ export async function syncToDatabase(databaseClientPool: Pool): Promise<void> {
   );
 
   for (let player of (await databaseClientPool.query("SELECT * FROM players;")).rows) {
-    killMap.set(player.username, {
-      kills: player.kills,
-      skills: player.skills,
-      id: player.user_id,
+    killMap.set(player.player_id, {
+      username: player.username,
+      kills: 0,
+      skills: 0,
       brainiac: player.brainiac,
     });
   }
+
+  // Totals are always rebuilt from the ledger so they can be audited with /skillhistory
+  for (let total of (
+    await databaseClientPool.query(
+      "SELECT player_id, (ARRAY_AGG(username ORDER BY finished DESC NULLS LAST))[1] AS username, SUM(kills) AS kills, SUM(skills) AS skills FROM raid_participation GROUP BY player_id;"
+    )
+  ).rows) {
+    const player = killMap.get(total.player_id);
+    killMap.set(total.player_id, {
+      username: player?.username ?? total.username,
+      kills: parseInt(total.kills),
+      skills: parseInt(total.skills),
+      brainiac: player?.brainiac ?? false,
+    });
+  }
+}
+
+// Players registered by name before we tracked ids are looked up once KoL will answer us
+export async function resolveLegacyPlayers(
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  const legacyPlayers = (await databaseClientPool.query("SELECT * FROM legacy_players;")).rows;
+  if (!legacyPlayers.length) return;
+  try {
+    for (let legacyPlayer of legacyPlayers) {
+      const id = await kolClient.getPlayerIdByExactName(legacyPlayer.username);
+      // Anything short of KoL saying there's nobody by that name is tried again next time
+      if (id === undefined) {
+        console.log(
+          `Couldn't look up legacy player ${legacyPlayer.username}, keeping them for now.`
+        );
+        continue;
+      }
+      if (id) {
+        await databaseClientPool.query(
+          "INSERT INTO players (player_id, username, done_with_skills, brainiac) VALUES ($1, $2, $3, $4) ON CONFLICT (player_id) DO UPDATE SET done_with_skills = players.done_with_skills OR $3, brainiac = players.brainiac OR $4;",
+          [id, legacyPlayer.username, legacyPlayer.done_with_skills, legacyPlayer.brainiac]
+        );
+        if (legacyPlayer.kills || legacyPlayer.skills) {
+          await databaseClientPool.query(
+            "INSERT INTO raid_participation (raid_id, clan_id, player_id, username, kills, skills) VALUES ($1, 0, $2, $3, $4, $5) ON CONFLICT (raid_id, player_id) DO UPDATE SET kills = raid_participation.kills + $4, skills = raid_participation.skills + $5;",
+            [BASELINE_RAID, id, legacyPlayer.username, legacyPlayer.kills, legacyPlayer.skills]
+          );
+        }
+        const player = killMap.get(id);
+        if (player) {
+          player.kills += legacyPlayer.kills;
+          player.skills += legacyPlayer.skills;
+          player.brainiac ||= legacyPlayer.brainiac;
+        } else {
+          killMap.set(id, {
+            username: legacyPlayer.username,
+            kills: legacyPlayer.kills,
+            skills: legacyPlayer.skills,
+            brainiac: legacyPlayer.brainiac,
+          });
+        }
+      } else {
+        console.log(`Dropping legacy player ${legacyPlayer.username}, who no longer exists.`);
+      }
+      await databaseClientPool.query("DELETE FROM legacy_players WHERE username = $1;", [
+        legacyPlayer.username,
+      ]);
+    }
+  } catch (error) {
+    if (!(error instanceof KoLUnavailableError)) throw error;
+    kolClient.queueUntilAvailable("legacy player resolution", () =>
+      resolveLegacyPlayers(kolClient, databaseClientPool)
+    );
+  }
 }
 
-async function clanStatus(interaction: CommandInteraction, kolClient: KOLClient): Promise<void> {
+// Falls back to whoever ran the command, if they've linked their account, and explains itself otherwise
+async function requestedPlayer(
+  interaction: PortableInteraction,
+  kolClient: KOLClient
+): Promise<{ id: number; username: string } | undefined> {
+  const name = interaction.options.getString("player");
+  if (!name) {
+    const linked = getLinkedPlayer(interaction.user.id);
+    if (!linked) {
+      interaction.editReply(
+        "You haven't linked your KoL account, so I don't know who you are. Name a player, or use /link first."
+      );
+      return undefined;
+    }
+    return {
+      id: linked.playerId,
+      username: killMap.get(linked.playerId)?.username ?? linked.username,
+    };
+  }
+  const player = await identifyPlayer(name, kolClient);
+  if (!player) interaction.editReply(`I couldn't find a player called "${name}".`);
+  return player;
+}
+
+async function identifyPlayer(
+  name: string,
+  kolClient: KOLClient
+): Promise<{ id: number; username: string } | undefined> {
+  const idMatch = /^#?(\d+)$/.exec(name.trim());
+  if (idMatch) {
+    const id = parseInt(idMatch[1]);
+    return { id: id, username: killMap.get(id)?.username ?? `#${id}` };
+  }
+  for (let [id, player] of killMap.entries()) {
+    if (player.username.toLowerCase() === name.toLowerCase())
+      return { id: id, username: player.username };
+  }
+  const id = parseInt((await kolClient.getBasicDetailsForUser(name)).id);
+  return id ? { id: id, username: name } : undefined;
+}
+
+function statusFailureMessage(error: unknown): string {
+  return error instanceof KoLUnavailableError
+    ? error.message
+    : "I was unable to fetch clan status, sorry. I might be stuck in a clan, or I might be unable to log in.";
+}
+
+async function clanStatus(interaction: PortableInteraction, kolClient: KOLClient): Promise<void> {
   let messageString = "";
   await interaction.deferReply();
   try {
-    for (let clan of dreadClans) {
+    for (let clan of getClans("dreadsylvania", interaction.guildId)) {
       const overview = await kolClient.getDreadStatusOverview(clan.id);
       const capacitorString = overview.capacitor
         ? `${!overview.castle ? 0 : overview.skills} skill${
@@ -185,20 +427,19 @@ async function clanStatus(interaction: CommandInteraction, kolClient: KOLClient)
         },
       ],
     });
-  } catch {
-    await interaction.editReply(
-      "I was unable to fetch clan status, sorry. I might be stuck in a clan, or I might be unable to log in."
-    );
+  } catch (error) {
+    await interaction.editReply(statusFailureMessage(error));
   }
 }
 
 async function detailedClanStatus(
-  interaction: CommandInteraction,
+  interaction: PortableInteraction,
   kolClient: KOLClient
 ): Promise<void> {
-  const clanName = interaction.options.getString("clan", true);
-  const clan = dreadClans.find(
-    (clan) => clan.name.toLowerCase() === clanName || clan.synonyms.includes(clanName)
+  const clan = findClan(
+    interaction.options.getString("clan", true),
+    "dreadsylvania",
+    interaction.guildId
   );
   if (!clan) {
     interaction.reply({ content: "Clan not recognised.", ephemeral: true });
@@ -285,43 +526,176 @@ async function detailedClanStatus(
         value: castleString,
       },
     ]);
-    embed.setFooter({
-      text: "Problems? Message DocRostov#7004 on discord.",
-      iconURL: "http://images.kingdomofloathing.com/itemimages/oaf.gif",
-    });
+    embed.setFooter(oafFooter(interaction.guildId));
     await interaction.editReply({ content: null, embeds: [embed] });
-  } catch {
-    await interaction.editReply(
-      "I was unable to fetch clan status, sorry. I might be stuck in a clan, or I might be unable to log in."
+  } catch (error) {
+    await interaction.editReply(statusFailureMessage(error));
+  }
+}
+
+async function hobopolisStatus(
+  interaction: PortableInteraction,
+  kolClient: KOLClient
+): Promise<void> {
+  const clanName = interaction.options.getString("clan");
+  const clan = clanName
+    ? findClan(clanName, "hobopolis", interaction.guildId)
+    : getClans("hobopolis", interaction.guildId)[0];
+  if (!clan) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply();
+  try {
+    const status = await kolClient.getHobopolisStatus(clan.id);
+    const embed = new MessageEmbed().setTitle(`Hobopolis status for ${clan.name}`);
+    embed.setDescription(
+      status.hodgmanDefeated
+        ? "~~Hodgman, The Hoboverlord defeated.~~"
+        : `Hodgman awaits. ${status.sideZones.filter((zone) => zone.bossDefeated).length}/${
+            status.sideZones.length
+          } side zone bosses defeated, ${
+            status.townSquareKills
+          } normal hobos killed in Town Square.`
+    );
+    const participants = status.participation.map(
+      (player) =>
+        `${player.player}: ${player.kills} kill${player.kills !== 1 ? "s" : ""}${
+          player.scares ? `, ${player.scares} scare${player.scares !== 1 ? "s" : ""}` : ""
+        }`
     );
+    embed.addFields([
+      {
+        name: "__**Sewers**__",
+        value: `${status.sewer.grates} grate${status.sewer.grates !== 1 ? "s" : ""} opened.
+${status.sewer.waterLevel} water level drop${status.sewer.waterLevel !== 1 ? "s" : ""}.
+${status.sewer.throughSewer} trip${status.sewer.throughSewer !== 1 ? "s" : ""} through the sewer.`,
+      },
+      ...status.sideZones.map((zone) => ({
+        name: `__**${zone.name}**__ (${zone.bossDefeated ? `~~${zone.boss}~~` : zone.boss})`,
+        value: zone.bossDefeated
+          ? "~~Zone cleared.~~"
+          : `Roughly ${zone.completion}% complete (${zone.kills} hobos killed).`,
+        inline: true,
+      })),
+      {
+        name: "__**Participants**__",
+        value: participants.join("\n").slice(0, 1024) || "Nobody yet!",
+      },
+    ]);
+    embed.setFooter(oafFooter(interaction.guildId));
+    await interaction.editReply({ content: null, embeds: [embed] });
+  } catch (error) {
+    await interaction.editReply(statusFailureMessage(error));
   }
 }
 
+function fighterList(fighters: DungeonFighter[]): string {
+  return (
+    fighters
+      .map(
+        (fighter) =>
+          `${fighter.player}: ${fighter.kills} kill${fighter.kills !== 1 ? "s" : ""} in ${
+            fighter.turns
+          } turn${fighter.turns !== 1 ? "s" : ""}`
+      )
+      .join("\n")
+      .slice(0, 1024) || "Nobody yet!"
+  );
+}
+
+async function slimeTubeStatus(
+  interaction: PortableInteraction,
+  kolClient: KOLClient
+): Promise<void> {
+  const clanName = interaction.options.getString("clan");
+  const clan = clanName
+    ? findClan(clanName, "slimetube", interaction.guildId)
+    : getClans("slimetube", interaction.guildId)[0];
+  if (!clan) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply();
+  try {
+    const status = await kolClient.getSlimeTubeStatus(clan.id);
+    const embed = new MessageEmbed()
+      .setTitle(`Slime Tube status for ${clan.name}`)
+      .setDescription(
+        `${status.slimesKilled} slime${status.slimesKilled !== 1 ? "s" : ""} killed.\n${
+          status.motherSlimeDefeated ? "~~Mother Slime defeated.~~" : "Mother Slime still lurks."
+        }`
+      )
+      .addFields([{ name: "__**Fighters**__", value: fighterList(status.fighters) }])
+      .setFooter(oafFooter(interaction.guildId));
+    await interaction.editReply({ content: null, embeds: [embed] });
+  } catch (error) {
+    await interaction.editReply(statusFailureMessage(error));
+  }
+}
+
+async function sororityHouseStatus(
+  interaction: PortableInteraction,
+  kolClient: KOLClient
+): Promise<void> {
+  const clanName = interaction.options.getString("clan");
+  const clan = clanName
+    ? findClan(clanName, "sorority", interaction.guildId)
+    : getClans("sorority", interaction.guildId)[0];
+  if (!clan) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply();
+  try {
+    const status = await kolClient.getSororityHouseStatus(clan.id);
+    const kills = [...status.kills.entries()].map(([monster, count]) => `${monster}: ${count}`);
+    const embed = new MessageEmbed()
+      .setTitle(`Haunted Sorority House status for ${clan.name}`)
+      .setDescription(kills.join("\n") || "Nothing has been killed yet.")
+      .addFields([{ name: "__**Fighters**__", value: fighterList(status.fighters) }])
+      .setFooter(oafFooter(interaction.guildId));
+    await interaction.editReply({ content: null, embeds: [embed] });
+  } catch (error) {
+    await interaction.editReply(statusFailureMessage(error));
+  }
+}
+
+function capitalise(username: string): string {
+  return username.charAt(0).toUpperCase() + username.slice(1);
+}
+
+// A skill is earned for every 900 kills, rounding to the nearest
+function skillsEarned(kills: number): number {
+  return Math.floor((kills + 450) / 900);
+}
+
 async function getSkills(
-  interaction: CommandInteraction,
+  interaction: PortableInteraction,
   kolClient: KOLClient,
   databaseClientPool: Pool
 ): Promise<void> {
   await interaction.deferReply();
   const doneWithSkillsList = (
-    await databaseClientPool.query("SELECT username FROM players WHERE done_with_skills = TRUE;")
-  ).rows.map((result) => result.username.toLowerCase());
+    await databaseClientPool.query("SELECT player_id FROM players WHERE done_with_skills = TRUE;")
+  ).rows.map((result) => result.player_id);
   try {
     await parseOldLogs(kolClient, databaseClientPool);
-    const currentKills: Map<string, PlayerData> = new Map();
+    const currentKills: Map<number, PlayerData> = new Map();
     for (let entry of killMap.entries()) {
       currentKills.set(entry[0], { ...entry[1] });
     }
     await parseCurrentLogs(kolClient, currentKills);
     let skillArray = [];
+    const owedDiscordIds: string[] = [];
     for (let entry of currentKills.entries()) {
       if (!doneWithSkillsList.includes(entry[0])) {
-        const owedSkills = Math.floor((entry[1].kills + 450) / 900) - entry[1].skills;
+        const owedSkills = skillsEarned(entry[1].kills) - entry[1].skills;
         if (owedSkills > 0) {
+          const discordId = getLinkedDiscordId(entry[0]);
+          if (discordId) owedDiscordIds.push(discordId);
           skillArray.push(
-            `${entry[0].charAt(0).toUpperCase() + entry[0].slice(1)}: ${owedSkills} skill${
-              owedSkills > 1 ? "s" : ""
-            }.`
+            `${capitalise(entry[1].username)}: ${owedSkills} skill${owedSkills > 1 ? "s" : ""}.`
           );
         }
       }
@@ -357,7 +731,25 @@ async function getSkills(
         },
       ],
     });
+    // Mentions inside embeds never notify anyone, so pings need a message of their own
+    if (interaction.options.getBoolean("ping") && owedDiscordIds.length) {
+      await interaction.followUp({
+        content: `You're owed Dreadsylvania skills: ${owedDiscordIds
+          .map((discordId) => `<@${discordId}>`)
+          .join(" ")}`,
+        allowedMentions: { users: owedDiscordIds },
+      });
+    }
   } catch (error) {
+    if (error instanceof KoLUnavailableError) {
+      kolClient.queueUntilAvailable("skill sync", () =>
+        parseOldLogs(kolClient, databaseClientPool)
+      );
+      await interaction.editReply(
+        `${error.message} I'll catch up on finished dungeons as soon as it's back.`
+      );
+      return;
+    }
     console.log(error);
     await interaction.editReply(
       "I was unable to fetch skill status, sorry. I might be stuck in a clan, or I might be unable to log in."
@@ -365,153 +757,285 @@ async function getSkills(
   }
 }
 
+async function skillHistory(
+  interaction: PortableInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  await interaction.deferReply();
+  const player = await requestedPlayer(interaction, kolClient);
+  if (!player) return;
+  const clanName = (clanId: number) =>
+    getClans().find((clan) => clan.id === clanId)?.name ?? `Clan #${clanId}`;
+  const plural = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? "s" : ""}`;
+
+  const raids = (
+    await databaseClientPool.query(
+      "SELECT * FROM raid_participation WHERE player_id = $1 ORDER BY raid_id = $2, finished DESC NULLS LAST, raid_id DESC;",
+      [player.id, BASELINE_RAID]
+    )
+  ).rows;
+  const doneWithSkills = !!(
+    await databaseClientPool.query("SELECT done_with_skills FROM players WHERE player_id = $1;", [
+      player.id,
+    ])
+  ).rows[0]?.done_with_skills;
+
+  const lines: string[] = [];
+  let kills = 0;
+  let skills = 0;
+  try {
+    for (let clan of getClans("dreadsylvania")) {
+      const contribution = extractDreadParticipation(
+        parseRaidLog(await kolClient.getRaidLog(clan.id))
+      ).find((participation) => participation.playerId === player.id);
+      if (!contribution) continue;
+      kills += contribution.kills;
+      skills += contribution.skills;
+      lines.push(
+        `**${clan.name}**, still running: ${plural(contribution.kills, "kill")}, ${plural(
+          contribution.skills,
+          "skill"
+        )}`
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof KoLUnavailableError)) console.log(error);
+    lines.push("*I couldn't check the dungeons that are still running.*");
+  }
+  for (let raid of raids) {
+    kills += raid.kills;
+    skills += raid.skills;
+  }
+  // Embeds cap out well before a veteran's full history, and the totals below still count everything
+  const shownRaids = raids.slice(0, 20);
+  for (let raid of shownRaids) {
+    if (raid.raid_id === BASELINE_RAID) {
+      lines.push(
+        `**Before dungeons were recorded one by one**: ${plural(raid.kills, "kill")}, ${plural(
+          raid.skills,
+          "skill"
+        )}`
+      );
+      continue;
+    }
+    const finished = raid.finished
+      ? `ended <t:${Math.floor(new Date(raid.finished).getTime() / 1000)}:D>`
+      : "end date unknown";
+    lines.push(
+      `**${clanName(parseInt(raid.clan_id))}**, raid ${raid.raid_id} (${finished}): ${plural(
+        raid.kills,
+        "kill"
+      )}, ${plural(raid.skills, "skill")}`
+    );
+  }
+  if (raids.length > shownRaids.length) {
+    lines.push(`...and ${raids.length - shownRaids.length} older dungeons.`);
+  }
+  if (!lines.length) {
+    interaction.editReply(`I don't have any Dreadsylvania participation for ${player.username}.`);
+    return;
+  }
+
+  const earned = skillsEarned(kills);
+  const owed = Math.max(0, earned - skills);
+  await interaction.editReply({
+    content: null,
+    embeds: [
+      {
+        title: `Dreadsylvania history for ${capitalise(player.username)} (#${player.id})`,
+        description: lines.join("\n"),
+        fields: [
+          {
+            name: "Skills owed",
+            value: `${plural(kills, "kill")} earns ${plural(
+              earned,
+              "skill"
+            )} (one per 900 kills, rounded to the nearest).\n${plural(
+              skills,
+              "skill"
+            )} already taken.\n**${plural(owed, "skill")} owed.**${
+              doneWithSkills ? "\nMarked as done with skills, so left off /skills." : ""
+            }`,
+          },
+        ],
+      },
+    ],
+  });
+}
+
+// Raids only count as parsed, in memory as well as in the database, once they've been saved. If
+// KoL goes away partway through, or saving fails, the next attempt starts from the same raids.
 async function parseOldLogs(kolClient: KOLClient, databaseClientPool: Pool) {
-  const newlyParsedRaids = [];
-  for (let clan of dreadClans) {
+  const newlyParsedRaids: { raidId: string; clanId: number; raidLog: RaidLog }[] = [];
+  for (let clan of getClans("dreadsylvania")) {
     const raidsToParse = (await kolClient.getMissingRaidLogs(clan.id, parsedRaids)).filter(
       (id) => !parsedRaids.includes(id)
     );
     for (let raid of raidsToParse) {
-      const raidLog = await kolClient.getFinishedRaidLog(raid);
-      addParticipationFromRaidLog(raidLog, killMap);
-      parsedRaids.push(raid);
-      newlyParsedRaids.push(raid);
+      const raidLog = parseRaidLog(await kolClient.getFinishedRaidLog(raid));
+      newlyParsedRaids.push({ raidId: raid, clanId: clan.id, raidLog: raidLog });
     }
   }
-  for (let [player, participation] of killMap.entries()) {
-    if (!participation.id) {
-      participation.id = (await kolClient.getBasicDetailsForUser(player)).id;
+  if (!newlyParsedRaids.length) return;
+  // Oldest first, so that anyone who has changed their name ends up with the newest one
+  newlyParsedRaids.sort(
+    (a, b) =>
+      (dreadRunEnded(a.raidLog)?.getTime() ?? 0) - (dreadRunEnded(b.raidLog)?.getTime() ?? 0)
+  );
+  const databaseClient = await databaseClientPool.connect();
+  try {
+    await databaseClient.query("BEGIN;");
+    for (let { raidId, clanId, raidLog } of newlyParsedRaids) {
+      await databaseClient.query("INSERT INTO tracked_instances(raid_id) VALUES ($1);", [raidId]);
+      const ended = dreadRunEnded(raidLog);
+      for (let contribution of extractDreadParticipation(raidLog)) {
+        await databaseClient.query(
+          "INSERT INTO raid_participation (raid_id, clan_id, player_id, username, kills, skills, finished) VALUES ($1, $2, $3, $4, $5, $6, $7) ON CONFLICT (raid_id, player_id) DO UPDATE SET kills = $5, skills = $6;",
+          [
+            raidId,
+            clanId,
+            contribution.playerId,
+            contribution.player,
+            contribution.kills,
+            contribution.skills,
+            ended ?? null,
+          ]
+        );
+        await databaseClient.query(
+          "INSERT INTO players (player_id, username) VALUES ($1, $2) ON CONFLICT (player_id) DO UPDATE SET username = $2;",
+          [contribution.playerId, contribution.player]
+        );
+      }
     }
+    await databaseClient.query("COMMIT;");
+  } catch (error) {
+    await databaseClient.query("ROLLBACK;");
+    throw error;
+  } finally {
+    databaseClient.release();
   }
-  const databaseClient = await databaseClientPool.connect();
-  await databaseClient.query("BEGIN;");
-  for (let raid of newlyParsedRaids) {
-    await databaseClient.query("INSERT INTO tracked_instances(raid_id) VALUES ($1);", [raid]);
-  }
-  for (let [player, participation] of killMap.entries()) {
-    await databaseClient.query(
-      "INSERT INTO players (username, kills, skills, user_id) VALUES ($1, $2, $3, $4) ON CONFLICT (username) DO UPDATE SET kills = $2, skills = $3, user_id = $4;",
-      [player, participation.kills, participation.skills, participation.id]
-    );
+  for (let { raidId, raidLog } of newlyParsedRaids) {
+    parsedRaids.push(raidId);
+    addParticipation(extractDreadParticipation(raidLog), killMap);
   }
-  await databaseClient.query("COMMIT;");
-  databaseClient.release();
 }
 
-async function setDone(interaction: CommandInteraction, databaseClientPool: Pool) {
-  const username = interaction.options.getString("player", true).toLowerCase();
+async function setPlayerFlag(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool,
+  flag: "done_with_skills" | "brainiac",
+  value: boolean
+): Promise<{ id: number; username: string } | undefined> {
   await interaction.deferReply();
+  const player = await requestedPlayer(interaction, kolClient);
+  if (!player) return undefined;
   await databaseClientPool.query(
-    "INSERT INTO players (username, done_with_skills) VALUES ($1, TRUE) ON CONFLICT (username) DO UPDATE SET done_with_skills = TRUE;",
-    [username]
+    `INSERT INTO players (player_id, username, ${flag}) VALUES ($1, $2, $3) ON CONFLICT (player_id) DO UPDATE SET ${flag} = $3;`,
+    [player.id, player.username, value]
   );
-  interaction.editReply(`Added user "${username}" to the list of players done with skills.`);
-  return;
+  return player;
 }
 
-async function setNotDone(interaction: CommandInteraction, databaseClientPool: Pool) {
-  const username = interaction.options.getString("player", true).toLowerCase();
-  await interaction.deferReply();
-  await databaseClientPool.query(
-    "INSERT INTO players (username, done_with_skills) VALUES ($1, FALSE) ON CONFLICT (username) DO UPDATE SET done_with_skills = FALSE;",
-    [username]
+async function setDone(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+) {
+  const player = await setPlayerFlag(
+    interaction,
+    kolClient,
+    databaseClientPool,
+    "done_with_skills",
+    true
+  );
+  if (!player) return;
+  interaction.editReply(
+    `Added user "${player.username}" (#${player.id}) to the list of players done with skills.`
   );
-  interaction.editReply(`Removed user "${username}" from the list of players done with skills.`);
-  return;
 }
 
-async function setbrainiac(interaction: CommandInteraction, databaseClientPool: Pool) {
-  const username = interaction.options.getString("player", true).toLowerCase();
-  await interaction.deferReply();
-  await databaseClientPool.query(
-    "INSERT INTO players (username, brainiac) VALUES ($1, TRUE) ON CONFLICT (username) DO UPDATE SET brainiac = TRUE;",
-    [username]
+async function setNotDone(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+) {
+  const player = await setPlayerFlag(
+    interaction,
+    kolClient,
+    databaseClientPool,
+    "done_with_skills",
+    false
   );
-  if (killMap.has(username)) (killMap.get(username) as PlayerData).brainiac = true;
+  if (!player) return;
+  interaction.editReply(
+    `Removed user "${player.username}" (#${player.id}) from the list of players done with skills.`
+  );
+}
+
+async function setbrainiac(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+) {
+  const player = await setPlayerFlag(interaction, kolClient, databaseClientPool, "brainiac", true);
+  if (!player) return;
+  const entry = killMap.get(player.id);
+  if (entry) entry.brainiac = true;
   else
-    killMap.set(username, {
+    killMap.set(player.id, {
+      username: player.username,
       kills: 0,
       skills: 0,
       brainiac: true,
     });
   interaction.editReply(
-    `Added user "${username}" to the list of players always available to help with skills.`
+    `Added user "${player.username}" (#${player.id}) to the list of players always available to help with skills.`
   );
-  return;
 }
 
-async function setUnbrainiac(interaction: CommandInteraction, databaseClientPool: Pool) {
-  const username = interaction.options.getString("player", true).toLowerCase();
-  await interaction.deferReply();
-  await databaseClientPool.query(
-    "INSERT INTO players (username, brainiac) VALUES ($1, FALSE) ON CONFLICT (username) DO UPDATE SET brainiac = FALSE;",
-    [username]
-  );
-  if (killMap.has(username)) (killMap.get(username) as PlayerData).brainiac = false;
+async function setUnbrainiac(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+) {
+  const player = await setPlayerFlag(interaction, kolClient, databaseClientPool, "brainiac", false);
+  if (!player) return;
+  const entry = killMap.get(player.id);
+  if (entry) entry.brainiac = false;
   interaction.editReply(
-    `Removed user "${username}" from the list of players always available to help with skills.`
+    `Removed user "${player.username}" (#${player.id}) from the list of players always available to help with skills.`
   );
-  return;
 }
 
-async function parseCurrentLogs(kolClient: KOLClient, mapToUpdate: Map<string, PlayerData>) {
-  for (let clan of dreadClans) {
+async function parseCurrentLogs(kolClient: KOLClient, mapToUpdate: Map<number, PlayerData>) {
+  for (let clan of getClans("dreadsylvania")) {
     const raidLog = await kolClient.getRaidLog(clan.id);
     if (!raidLog) throw "Clan inaccessible";
-    addParticipationFromRaidLog(raidLog, mapToUpdate);
+    addParticipation(extractDreadParticipation(parseRaidLog(raidLog)), mapToUpdate);
   }
 }
 
-function addParticipationFromRaidLog(raidLog: string, mapToUpdate: Map<string, PlayerData>): void {
-  const skillLines = raidLog.toLowerCase().match(new RegExp(SKILLMATCHER, "g"));
-  const killLines = raidLog.toLowerCase().match(new RegExp(KILLMATCHER, "g"));
-  if (killLines) {
-    for (let kill of killLines) {
-      const matchedKill = kill.match(KILLMATCHER);
-      if (matchedKill) {
-        const participation = mapToUpdate.get(matchedKill[1]);
-        if (participation) {
-          mapToUpdate.set(matchedKill[1], {
-            kills: participation.kills + parseInt(matchedKill[2]),
-            skills: participation.skills,
-            id: participation.id,
-            brainiac: participation.brainiac,
-          });
-        } else {
-          mapToUpdate.set(matchedKill[1], {
-            kills: parseInt(matchedKill[2]),
-            skills: 0,
-            brainiac: false,
-          });
-        }
-      }
-    }
-  }
-  if (skillLines) {
-    for (let skill of skillLines) {
-      const matchedSkill = skill.match(SKILLMATCHER);
-      if (matchedSkill) {
-        const participation = mapToUpdate.get(matchedSkill[1]);
-        if (participation) {
-          mapToUpdate.set(matchedSkill[1], {
-            kills: participation.kills,
-            skills: participation.skills + 1,
-            id: participation.id,
-            brainiac: participation.brainiac,
-          });
-        } else {
-          mapToUpdate.set(matchedSkill[1], {
-            kills: 0,
-            skills: 1,
-            brainiac: false,
-          });
-        }
-      }
+function addParticipation(
+  participation: DreadParticipation[],
+  mapToUpdate: Map<number, PlayerData>
+): void {
+  for (let contribution of participation) {
+    const existing = mapToUpdate.get(contribution.playerId);
+    if (mapToUpdate === killMap && existing && existing.username !== contribution.player) {
+      console.log(`Player #${contribution.playerId} is now known as ${contribution.player}.`);
     }
+    mapToUpdate.set(contribution.playerId, {
+      username: contribution.player,
+      kills: (existing?.kills ?? 0) + contribution.kills,
+      skills: (existing?.skills ?? 0) + contribution.skills,
+      brainiac: existing?.brainiac ?? false,
+    });
   }
 }
 
-async function getBrains(interaction: CommandInteraction, kolClient: KOLClient): Promise<void> {
+async function getBrains(interaction: PortableInteraction, kolClient: KOLClient): Promise<void> {
   interaction.deferReply();
   const baseClasses = [
     "Seal Clubber",
@@ -522,15 +1046,14 @@ async function getBrains(interaction: CommandInteraction, kolClient: KOLClient):
     "Accordion Thief",
   ];
   const classMap: Map<string, string[]> = new Map();
-  for (let player of killMap.keys()) {
-    const playerEntry = killMap.get(player);
-    if (!!playerEntry?.skills || playerEntry?.brainiac) {
-      const details = await kolClient.getBasicDetailsForUser(player);
+  for (let player of killMap.values()) {
+    if (!!player.skills || player.brainiac) {
+      const details = await kolClient.getBasicDetailsForUser(player.username);
       if (details.level >= 15) {
         if (!classMap.has(details.class)) {
           classMap.set(details.class, []);
         }
-        classMap.get(details.class)?.push(player);
+        classMap.get(details.class)?.push(player.username);
       }
     }
   }
@@ -563,31 +1086,241 @@ async function getBrains(interaction: CommandInteraction, kolClient: KOLClient):
   });
 }
 
+// The clan a whitelist command was pointed at, or every managed clan if it wasn't pointed at one
+function whitelistClans(interaction: CommandInteraction): Clan[] | undefined {
+  const clanName = interaction.options.getString("clan", false);
+  if (!clanName) return getClans();
+  const clan = findClan(clanName);
+  return clan ? [clan] : undefined;
+}
+
 async function whitelist(interaction: CommandInteraction, kolClient: KOLClient): Promise<void> {
-  const roles = interaction.member?.roles as GuildMemberRoleManager;
-  if (
-    roles.cache.some(
-      (role) => role.id === "473316929768128512" || role.id === "466624206126448641"
-    ) ||
-    interaction.user.id === "145957353487990784"
-  ) {
-    const player = interaction.options.getString("player", true);
-    interaction.deferReply();
-    const playerData = await kolClient.getBasicDetailsForUser(player);
-    if (!playerData.id) {
-      interaction.editReply({ content: "Player not found." });
-      return;
+  const player = interaction.options.getString("player", true);
+  const rank = interaction.options.getString("rank", false);
+  const title = interaction.options.getString("title", false) || "";
+  const clans = whitelistClans(interaction);
+  if (!clans) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply();
+  const playerData = await kolClient.getBasicDetailsForUser(player);
+  if (!playerData.id) {
+    interaction.editReply({ content: "Player not found." });
+    return;
+  }
+  const added: string[] = [];
+  const skipped: string[] = [];
+  for (let clan of clans) {
+    let level = 2;
+    // Every clan names its own ranks, so the one asked for has to be looked up clan by clan
+    if (rank) {
+      const ranks = (await kolClient.getWhitelist(clan.id)).ranks;
+      const match = ranks.find(
+        (option) =>
+          option.name.toLowerCase() === rank.toLowerCase() || option.level.toString() === rank
+      );
+      if (!match) {
+        skipped.push(
+          `${clan.name} has no rank called "${rank}" (try ${ranks
+            .map((option) => option.name)
+            .join(", ")}).`
+        );
+        continue;
+      }
+      level = match.level;
     }
-    for (let clan of allClans) {
-      await kolClient.addToWhitelist(playerData.id, clan.id);
+    await kolClient.addToWhitelist(playerData.id, clan.id, level, title);
+    added.push(clan.name);
+  }
+  const where =
+    clans.length === getClans().length && !skipped.length
+      ? "all managed clan whitelists"
+      : `the whitelists of ${added.join(", ")}`;
+  interaction.editReply({
+    content: [
+      added.length ? `Added player ${player} (#${playerData.id}) to ${where}.` : "",
+      ...skipped,
+    ]
+      .filter((line) => line)
+      .join("\n"),
+  });
+}
+
+async function unwhitelist(interaction: CommandInteraction, kolClient: KOLClient): Promise<void> {
+  const clans = whitelistClans(interaction);
+  if (!clans) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply();
+  const player = await identifyPlayer(interaction.options.getString("player", true), kolClient);
+  if (!player) {
+    interaction.editReply({ content: "Player not found." });
+    return;
+  }
+  const removed: string[] = [];
+  for (let clan of clans) {
+    if (await kolClient.removeFromWhitelist(player.id, clan.id)) removed.push(clan.name);
+  }
+  interaction.editReply({
+    content: removed.length
+      ? `Removed player ${player.username} (#${player.id}) from the whitelists of ${removed.join(
+          ", "
+        )}.`
+      : `${player.username} (#${player.id}) wasn't on any of those whitelists.`,
+  });
+}
+
+async function whitelisted(interaction: CommandInteraction, kolClient: KOLClient): Promise<void> {
+  const clans = whitelistClans(interaction);
+  if (!clans) {
+    interaction.reply({ content: "Clan not recognised.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply();
+  const embeds: MessageEmbed[] = [];
+  for (let clan of clans) {
+    const members = (await kolClient.getWhitelist(clan.id)).members;
+    let description = "";
+    for (const [index, member] of members.entries()) {
+      const line = `${Util.escapeMarkdown(member.username)} (#${member.playerId}) - ${member.rank}${
+        member.title ? `, "${Util.escapeMarkdown(member.title)}"` : ""
+      }\n`;
+      // Discord won't show more than 4096 characters in one embed
+      if (description.length + line.length > 4000) {
+        description += `...and ${members.length - index} more.`;
+        break;
+      }
+      description += line;
     }
-    interaction.editReply({
-      content: `Added player ${player} (#${playerData.id}) to all managed clan whitelists.`,
-    });
-  } else {
+    embeds.push(
+      new MessageEmbed()
+        .setTitle(`${clan.name} Whitelist (${members.length})`)
+        .setDescription(description || "Nobody is whitelisted.")
+    );
+  }
+  // Each embed goes in its own message, as several full ones together are too long for one
+  await interaction.editReply({ content: null, embeds: embeds.slice(0, 1) });
+  for (const embed of embeds.slice(1)) await interaction.followUp({ embeds: [embed] });
+}
+
+// How long someone has to confirm a reset before OAF forgets they asked
+const RESET_CONFIRM_TIME = 60 * 1000;
+// The confirmation buttons carry the request they belong to, so two resets waiting in the same
+// channel can't answer each other
+const RESET_CHOICE = new ComponentId("resetdread", "choice", "request");
+
+async function recordReset(
+  databaseClientPool: Pool,
+  clanId: number,
+  interaction: CommandInteraction,
+  outcome: string,
+  raidId?: string
+): Promise<void> {
+  await databaseClientPool.query(
+    "INSERT INTO dungeon_resets (clan_id, discord_id, requested, outcome, raid_id) VALUES ($1, $2, $3, $4, $5);",
+    [clanId, interaction.user.id, interaction.createdTimestamp, outcome, raidId ?? null]
+  );
+}
+
+async function resetDread(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  const clan = findClan(interaction.options.getString("clan", true), "dreadsylvania");
+  if (!clan) {
     interaction.reply({
-      content: "You are not permitted to edit clan whitelists.",
+      content: "That isn't one of our Dreadsylvania clans.",
       ephemeral: true,
     });
+    return;
+  }
+  await interaction.deferReply();
+  let zonesLeft: string[];
+  try {
+    const overview = await kolClient.getDreadStatusOverview(clan.id);
+    zonesLeft = ["Forest", "Village", "Castle"].filter(
+      (_, index) => !overview.bosses[index].startsWith("x")
+    );
+  } catch (error) {
+    await interaction.editReply(statusFailureMessage(error));
+    return;
+  }
+  if (zonesLeft.length) {
+    await recordReset(databaseClientPool, clan.id, interaction, "unfinished");
+    await interaction.editReply(
+      `Dreadsylvania in ${
+        clan.name
+      } isn't finished yet. Bosses are still alive in: ${zonesLeft.join(", ")}.`
+    );
+    return;
+  }
+  const message = (await interaction.editReply({
+    content: `Dreadsylvania in ${clan.name} is finished. Reset it? This spends the clan's meat on a new instance.`,
+    components: [
+      new MessageActionRow().addComponents(
+        new MessageButton()
+          .setCustomId(RESET_CHOICE.encode({ choice: "reset", request: interaction.id }))
+          .setLabel("Reset")
+          .setStyle("DANGER"),
+        new MessageButton()
+          .setCustomId(RESET_CHOICE.encode({ choice: "cancel", request: interaction.id }))
+          .setLabel("Cancel")
+          .setStyle("SECONDARY")
+      ),
+    ],
+  })) as Message;
+  let choice: MessageComponentInteraction;
+  try {
+    choice = await message.awaitMessageComponent({
+      filter: (click) =>
+        click.user.id === interaction.user.id &&
+        RESET_CHOICE.decode(click.customId)?.request === interaction.id,
+      time: RESET_CONFIRM_TIME,
+    });
+  } catch {
+    await recordReset(databaseClientPool, clan.id, interaction, "timed out");
+    await interaction.editReply({
+      content: `Nobody confirmed, so Dreadsylvania in ${clan.name} has been left alone.`,
+      components: [],
+    });
+    return;
+  }
+  if (RESET_CHOICE.decode(choice.customId)?.choice !== "reset") {
+    await recordReset(databaseClientPool, clan.id, interaction, "cancelled");
+    await choice.update({ content: "Reset cancelled.", components: [] });
+    return;
   }
+  await choice.update({ content: `Resetting Dreadsylvania in ${clan.name}...`, components: [] });
+  let raidId: string | undefined;
+  try {
+    raidId = await kolClient.resetDread(clan.id);
+  } catch (error) {
+    await recordReset(databaseClientPool, clan.id, interaction, "failed");
+    await interaction.editReply(statusFailureMessage(error));
+    return;
+  }
+  await recordReset(databaseClientPool, clan.id, interaction, raidId ? "reset" : "failed", raidId);
+  if (!raidId) {
+    await interaction.editReply(
+      `KoL didn't reset Dreadsylvania in ${clan.name}. Check the clan has the meat and that I can manage the basement there.`
+    );
+    return;
+  }
+  // The new run only gets a raid id once it's finished, so what's worth showing is how it looks now.
+  // Restocking it is still left to a dungeon manager in game.
+  let fresh: string;
+  try {
+    const overview = await kolClient.getDreadStatusOverview(clan.id);
+    fresh = `The new instance has ${overview.forest}/${overview.village}/${
+      overview.castle
+    } kills to go${overview.capacitor ? "" : " and needs its capacitor"}.`;
+  } catch {
+    fresh = "I couldn't read the new instance's raid log yet; /status will show it.";
+  }
+  await interaction.editReply(
+    `Dreadsylvania in ${clan.name} has been reset. ${fresh} The finished run was filed as raid ${raidId}.`
+  );
 }
@@ -0,0 +1,466 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import {
+  AutocompleteInteraction,
+  Client,
+  CommandInteraction,
+  MessageActionRow,
+  MessageButton,
+  MessageComponentInteraction,
+  Modal,
+  ModalSubmitInteraction,
+  TextBasedChannel,
+  TextInputComponent,
+} from "discord.js";
+import { Pool } from "pg";
+import { ComponentId, DiscordClient } from "./discord";
+import { describeRecurrence, nextOccurrence, parseTime } from "./timeparser";
+import { getUserSettings } from "./usersettings";
+
+type Reminder = {
+  id: number;
+  guildId?: string;
+  channelId: string;
+  userId: string;
+  replyId?: string;
+  message: string;
+  time: number;
+  recurrence?: string;
+};
+
+// A row of the reminders table as pg hands it back, with the bigint time still a string
+type ReminderRow = {
+  id: number;
+  guild_id: string | null;
+  channel_id: string;
+  user_id: string;
+  interaction_reply_id: string | null;
+  message_contents: string;
+  reminder_time: string;
+  status: string;
+  recurrence: string | null;
+};
+
+// How often to look for reminders coming due; ones due before the next look get their own timer
+const TICK_INTERVAL = 30 * 1000;
+// The buttons on a reminder that put it off for a while, each with the "when" it's put off until
+const SNOOZES = [
+  { when: "10m", label: "Snooze 10m" },
+  { when: "1h", label: "Snooze 1h" },
+  { when: "rollover", label: "Until rollover" },
+];
+const SNOOZE_BUTTON = new ComponentId("reminder:snooze", "reminderId", "when");
+// Also the id of the modal it opens, asking how long to snooze for
+const SNOOZE_FOR_BUTTON = new ComponentId("reminder:snoozefor", "reminderId");
+const DONE_BUTTON = new ComponentId("reminder:done", "reminderId");
+
+function toReminder(row: ReminderRow): Reminder {
+  return {
+    id: row.id,
+    guildId: row.guild_id ?? undefined,
+    channelId: row.channel_id,
+    userId: row.user_id,
+    replyId: row.interaction_reply_id ?? undefined,
+    message: row.message_contents,
+    time: parseInt(row.reminder_time),
+    recurrence: row.recurrence ?? undefined,
+  };
+}
+
+export function attachReminderCommands(discordClient: DiscordClient, databaseClientPool: Pool) {
+  discordClient.attachCommand(
+    "remind",
+    [
+      {
+        name: "when",
+        description:
+          'When to remind you ("3h", "before rollover", "tomorrow 9pm", "2026-11-01 18:00", "every monday")',
+        type: ApplicationCommandOptionType.String,
+        required: true,
+      },
+      {
+        name: "reminder",
+        description: "What to remind you",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+    ],
+    (interaction) => createReminder(interaction, databaseClientPool),
+    "Sets a reminder"
+  );
+  discordClient.attachCommand(
+    "reminders",
+    [],
+    (interaction) => listReminders(interaction, databaseClientPool),
+    "Lists the reminders you have waiting"
+  );
+  discordClient.attachCommand(
+    "unremind",
+    [
+      {
+        name: "reminder",
+        description: "The reminder to cancel",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: (input: string, interaction: AutocompleteInteraction) =>
+          reminderChoices(input, interaction.user.id, databaseClientPool),
+      },
+    ],
+    (interaction) => cancelReminder(interaction, databaseClientPool),
+    "Cancels one of your reminders"
+  );
+  discordClient.attachComponent(
+    SNOOZE_BUTTON,
+    (interaction, { reminderId, when }) =>
+      onReminderButton(interaction, "snooze", reminderId, databaseClientPool, when),
+    "remind"
+  );
+  discordClient.attachComponent(
+    SNOOZE_FOR_BUTTON,
+    (interaction, { reminderId }) =>
+      onReminderButton(interaction, "snoozefor", reminderId, databaseClientPool),
+    "remind"
+  );
+  discordClient.attachComponent(
+    DONE_BUTTON,
+    (interaction, { reminderId }) =>
+      onReminderButton(interaction, "done", reminderId, databaseClientPool),
+    "remind"
+  );
+  discordClient.attachModal(
+    SNOOZE_FOR_BUTTON,
+    (interaction, { reminderId }) => onSnoozeModal(interaction, reminderId, databaseClientPool),
+    "remind"
+  );
+}
+
+function reminderButtons(id: number): MessageActionRow {
+  return new MessageActionRow().addComponents(
+    ...SNOOZES.map((snooze) =>
+      new MessageButton()
+        .setCustomId(SNOOZE_BUTTON.encode({ reminderId: id, when: snooze.when }))
+        .setLabel(snooze.label)
+        .setStyle("SECONDARY")
+    ),
+    new MessageButton()
+      .setCustomId(SNOOZE_FOR_BUTTON.encode({ reminderId: id }))
+      .setLabel("Snooze...")
+      .setStyle("SECONDARY"),
+    new MessageButton()
+      .setCustomId(DONE_BUTTON.encode({ reminderId: id }))
+      .setLabel("Done")
+      .setStyle("SUCCESS")
+  );
+}
+
+// The reminder a button belongs to, as long as it's the one pressing it
+async function ownReminder(
+  interaction: MessageComponentInteraction | ModalSubmitInteraction,
+  reminderId: string,
+  databaseClientPool: Pool
+): Promise<Reminder | undefined> {
+  const row = (
+    await databaseClientPool.query<ReminderRow>("SELECT * FROM reminders WHERE id = $1;", [
+      parseInt(reminderId),
+    ])
+  ).rows[0];
+  if (!row || row.user_id !== interaction.user.id) {
+    await interaction.reply({ content: "That isn't your reminder.", ephemeral: true });
+    return undefined;
+  }
+  return toReminder(row);
+}
+
+async function onReminderButton(
+  interaction: MessageComponentInteraction,
+  action: "snooze" | "snoozefor" | "done",
+  reminderId: string,
+  databaseClientPool: Pool,
+  when: string = ""
+): Promise<void> {
+  const reminder = await ownReminder(interaction, reminderId, databaseClientPool);
+  if (!reminder) return;
+  if (action === "done") {
+    await interaction.update({ components: [] });
+    return;
+  }
+  // Asks how long for, and the answer comes back to onSnoozeModal
+  if (action === "snoozefor") {
+    await interaction.showModal(
+      new Modal()
+        .setCustomId(SNOOZE_FOR_BUTTON.encode({ reminderId: reminderId }))
+        .setTitle("Snooze reminder")
+        .addComponents(
+          new MessageActionRow<TextInputComponent>().addComponents(
+            new TextInputComponent()
+              .setCustomId("when")
+              .setLabel("Until when?")
+              .setPlaceholder('"30m", "before rollover", "tomorrow 9pm"...')
+              .setStyle("SHORT")
+              .setRequired(true)
+          )
+        )
+    );
+    return;
+  }
+  const snoozed = parseTime(when);
+  if (!snoozed) return;
+  await snooze(interaction, reminder, snoozed.time, databaseClientPool);
+}
+
+async function onSnoozeModal(
+  interaction: ModalSubmitInteraction,
+  reminderId: string,
+  databaseClientPool: Pool
+): Promise<void> {
+  const reminder = await ownReminder(interaction, reminderId, databaseClientPool);
+  if (!reminder) return;
+  const when = parseTime(
+    interaction.fields.getTextInputValue("when"),
+    Date.now(),
+    getUserSettings(interaction.user.id).timeZone
+  );
+  if (!when || when.recurrence || when.time <= Date.now()) {
+    await interaction.reply({ content: "I couldn't read that time.", ephemeral: true });
+    return;
+  }
+  await snooze(interaction, reminder, when.time, databaseClientPool);
+}
+
+// Snoozing a reminder arms it again, replying to the alarm when it next goes off. A repeating
+// reminder keeps its schedule, so snoozing it only sets up a one-off copy alongside it.
+async function snooze(
+  interaction: MessageComponentInteraction | ModalSubmitInteraction,
+  reminder: Reminder,
+  time: number,
+  databaseClientPool: Pool
+): Promise<void> {
+  if (!interaction.message) return;
+  const rearmed = reminder.recurrence
+    ? await databaseClientPool.query(
+        "INSERT INTO reminders(guild_id, channel_id, user_id, interaction_reply_id, message_contents, reminder_time) VALUES ($1, $2, $3, $4, $5, $6);",
+        [
+          reminder.guildId ?? null,
+          reminder.channelId,
+          reminder.userId,
+          interaction.message.id,
+          reminder.message,
+          time,
+        ]
+      )
+    : await databaseClientPool.query(
+        "UPDATE reminders SET status = 'pending', reminder_time = $2, interaction_reply_id = $3 WHERE id = $1 AND status = 'fired';",
+        [reminder.id, time, interaction.message.id]
+      );
+  if (!rearmed.rowCount) {
+    await interaction.reply({
+      content: "That reminder has already been snoozed or cancelled.",
+      ephemeral: true,
+    });
+    return;
+  }
+  await interaction.update({
+    content: `<@${reminder.userId}> Snoozed until <t:${Math.floor(time / 1000)}:f>.${
+      reminder.recurrence
+        ? ` It still goes off ${describeRecurrence(reminder.recurrence)} as well.`
+        : ""
+    }`,
+    components: [],
+    allowedMentions: { parse: [] },
+  });
+}
+
+async function pendingReminders(databaseClientPool: Pool, userId: string): Promise<Reminder[]> {
+  return (
+    await databaseClientPool.query<ReminderRow>(
+      "SELECT * FROM reminders WHERE user_id = $1 AND status = 'pending' ORDER BY reminder_time;",
+      [userId]
+    )
+  ).rows.map(toReminder);
+}
+
+async function reminderChoices(input: string, userId: string, databaseClientPool: Pool) {
+  const search = input.toLowerCase();
+  return (await pendingReminders(databaseClientPool, userId))
+    .filter((reminder) => `${reminder.id} ${reminder.message}`.toLowerCase().includes(search))
+    .map((reminder) => ({
+      name: `#${reminder.id}: ${reminder.message}`.slice(0, 100),
+      value: reminder.id.toString(),
+    }));
+}
+
+async function createReminder(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const time = interaction.options.getString("when", true);
+  const reminderText = interaction.options.getString("reminder") || "Time's up!";
+  const timeZone = getUserSettings(interaction.user.id).timeZone;
+  const when = parseTime(time, Date.now(), timeZone);
+  if (!when) {
+    interaction.reply({
+      content:
+        'I couldn\'t read that time. Try a wait like "1w2d3h4m5s", "rollover", "before rollover" or "rollover+30m", a time like "tomorrow 9pm" or "2026-11-01 18:00", or a repeat like "every rollover", "every monday" or "every 1d" (at least an hour apart).',
+      ephemeral: true,
+    });
+    return;
+  }
+  if (when.time <= Date.now()) {
+    interaction.reply({
+      content: `<t:${Math.floor(when.time / 1000)}:F> has already been and gone.`,
+      ephemeral: true,
+    });
+    return;
+  }
+  if (reminderText.length > 127) {
+    interaction.reply({
+      content: "Maximum reminder length is 128 characters.",
+      ephemeral: true,
+    });
+    return;
+  }
+  const preview = `<t:${Math.floor(when.time / 1000)}:F> (<t:${Math.floor(when.time / 1000)}:R>)`;
+  const zoneNote =
+    when.local && !timeZone ? " I read that in UTC; use /timezone to tell me yours." : "";
+  await interaction.reply(
+    when.recurrence
+      ? `Okay, I'll remind you ${describeRecurrence(
+          when.recurrence
+        )}, starting ${preview}. Use /unremind to stop.`
+      : `Okay, I'll remind you ${preview}.${zoneNote}`
+  );
+
+  const reply_id = (await interaction.fetchReply()).id;
+  await databaseClientPool.query(
+    "INSERT INTO reminders(guild_id, channel_id, user_id, interaction_reply_id, message_contents, reminder_time, recurrence) VALUES ($1, $2, $3, $4, $5, $6, $7);",
+    [
+      interaction.guildId,
+      interaction.channelId,
+      interaction.user.id,
+      reply_id,
+      reminderText,
+      when.time,
+      when.recurrence ?? null,
+    ]
+  );
+}
+
+async function listReminders(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const reminders = await pendingReminders(databaseClientPool, interaction.user.id);
+  interaction.reply({
+    content: reminders.length
+      ? reminders
+          .map(
+            (reminder) =>
+              `**#${reminder.id}** <t:${Math.floor(reminder.time / 1000)}:R>${
+                reminder.recurrence ? ` (${describeRecurrence(reminder.recurrence)})` : ""
+              }: ${reminder.message}`
+          )
+          .join("\n")
+          .slice(0, 2000)
+      : "You don't have any reminders waiting.",
+    ephemeral: true,
+    allowedMentions: { parse: [] },
+  });
+}
+
+async function cancelReminder(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const id = parseInt(interaction.options.getString("reminder", true).replace(/^#/, ""));
+  const cancelled = isNaN(id)
+    ? { rows: [] }
+    : await databaseClientPool.query<ReminderRow>(
+        "UPDATE reminders SET status = 'cancelled' WHERE id = $1 AND user_id = $2 AND status = 'pending' RETURNING *;",
+        [id, interaction.user.id]
+      );
+  interaction.reply({
+    content: cancelled.rows.length
+      ? `Cancelled reminder #${id}: ${cancelled.rows[0].message_contents}`
+      : "You don't have a reminder waiting with that number. Try /reminders.",
+    ephemeral: true,
+    allowedMentions: { parse: [] },
+  });
+}
+
+// Sends reminders when they come due, straight out of the reminders table, so nothing is lost
+// to a restart; anything that came due while OAF was away goes out as soon as it's back
+export class ReminderScheduler {
+  private _databaseClientPool: Pool;
+  private _client: Client;
+  private _scheduled: Set<number> = new Set();
+
+  constructor(databaseClientPool: Pool, client: Client) {
+    this._databaseClientPool = databaseClientPool;
+    this._client = client;
+  }
+
+  start(): void {
+    setInterval(() => this.tick(), TICK_INTERVAL);
+    this.tick();
+  }
+
+  private async tick(): Promise<void> {
+    if (!this._client.isReady()) return;
+    const now = Date.now();
+    let due: Reminder[];
+    try {
+      due = (
+        await this._databaseClientPool.query<ReminderRow>(
+          "SELECT * FROM reminders WHERE status = 'pending' AND reminder_time < $1;",
+          [now + TICK_INTERVAL]
+        )
+      ).rows.map(toReminder);
+    } catch (error) {
+      console.log(error);
+      return;
+    }
+    for (const reminder of due.filter((reminder) => !this._scheduled.has(reminder.id))) {
+      this._scheduled.add(reminder.id);
+      setTimeout(() => this.fire(reminder), Math.max(0, reminder.time - now));
+    }
+  }
+
+  // Claims the reminder before sending it, so a cancelled reminder stays quiet and none goes out twice
+  private async fire(reminder: Reminder): Promise<void> {
+    this._scheduled.delete(reminder.id);
+    const now = Date.now();
+    const late = now - reminder.time > TICK_INTERVAL;
+    try {
+      const claimed = reminder.recurrence
+        ? await this._databaseClientPool.query(
+            "UPDATE reminders SET reminder_time = $2 WHERE id = $1 AND status = 'pending' AND reminder_time = $3 RETURNING id;",
+            [
+              reminder.id,
+              nextOccurrence(reminder.recurrence, Math.max(now, reminder.time)),
+              reminder.time,
+            ]
+          )
+        : await this._databaseClientPool.query(
+            "UPDATE reminders SET status = 'fired' WHERE id = $1 AND status = 'pending' RETURNING id;",
+            [reminder.id]
+          );
+      if (!claimed.rows.length) return;
+      const channel = reminder.guildId
+        ? await this._client.channels.fetch(reminder.channelId)
+        : await (await this._client.users.fetch(reminder.userId)).createDM();
+      if (!channel?.isText()) return;
+      await (channel as TextBasedChannel).send({
+        content: `<@${reminder.userId}>`,
+        embeds: [
+          {
+            title: "⏰⏰⏰",
+            description: reminder.message,
+            ...(late
+              ? { footer: { text: "OAF was away when this was due, sorry it's late." } }
+              : {}),
+          },
+        ],
+        components: [reminderButtons(reminder.id)],
+        allowedMentions: {
+          users: [reminder.userId],
+        },
+        // Repeating reminders would all reply to the same old message, so only the first one does
+        ...(reminder.replyId && !reminder.recurrence
+          ? { reply: { messageReference: reminder.replyId, failIfNotExists: false } }
+          : {}),
+      });
+    } catch (error) {
+      console.log(error);
+    }
+  }
+}
@@ -0,0 +1,484 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import {
+  AutocompleteInteraction,
+  Client,
+  CommandInteraction,
+  GuildMember,
+  Message,
+  MessageActionRow,
+  MessageButton,
+  MessageComponentInteraction,
+  MessageEmbed,
+  MessageReaction,
+  TextBasedChannel,
+  User,
+} from "discord.js";
+import { Pool } from "pg";
+import { ComponentId, DiscordClient } from "./discord";
+import { oafFooter } from "./guildsettings";
+import { roleProblem } from "./permissions";
+
+type RoleBinding = {
+  emoji: string;
+  roleId: string;
+  label?: string;
+};
+
+type RolePanel = {
+  messageId: string;
+  guildId: string;
+  channelId: string;
+  title: string;
+  // Members can only hold one of the panel's roles at a time
+  exclusive: boolean;
+  // Buttons under the message rather than reactions on it
+  buttons: boolean;
+  bindings: RoleBinding[];
+};
+
+// Discord fits five buttons in a row and five rows under a message
+const MAX_BINDINGS = 25;
+const PANEL_BUTTON = new ComponentId("rolepanel", "emoji");
+
+const rolePanels: Map<string, RolePanel> = new Map();
+
+// Some emoji come with or without a variation selector depending on where they were typed
+function sameEmoji(a: string, b: string): boolean {
+  return a.replace(/\uFE0F/g, "") === b.replace(/\uFE0F/g, "");
+}
+
+export async function syncRolePanels(databaseClientPool: Pool): Promise<void> {
+  rolePanels.clear();
+  for (let row of (await databaseClientPool.query("SELECT * FROM role_panels;")).rows) {
+    rolePanels.set(row.message_id, {
+      messageId: row.message_id,
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      title: row.title,
+      exclusive: row.exclusive,
+      buttons: row.buttons,
+      bindings: [],
+    });
+  }
+  for (let row of (
+    await databaseClientPool.query("SELECT * FROM role_panel_bindings ORDER BY position;")
+  ).rows) {
+    rolePanels.get(row.message_id)?.bindings.push({
+      emoji: row.emoji,
+      roleId: row.role_id,
+      label: row.label ?? undefined,
+    });
+  }
+}
+
+function panelEmbed(panel: RolePanel): MessageEmbed {
+  const lines = panel.bindings.map(
+    (binding) =>
+      `${binding.emoji} <@&${binding.roleId}>${binding.label ? ` - ${binding.label}` : ""}`
+  );
+  const how = panel.buttons ? "Click a button" : "React";
+  return new MessageEmbed()
+    .setTitle(panel.title)
+    .setDescription(
+      [
+        lines.join("\n") || "No roles yet.",
+        "",
+        panel.exclusive
+          ? `${how} to pick one of these roles. Picking another swaps it.`
+          : `${how} to take a role, and again to give it back.`,
+      ].join("\n")
+    )
+    .setFooter(oafFooter(panel.guildId));
+}
+
+function panelButtons(panel: RolePanel): MessageActionRow[] {
+  if (!panel.buttons) return [];
+  const rows: MessageActionRow[] = [];
+  panel.bindings.forEach((binding, index) => {
+    if (index % 5 === 0) rows.push(new MessageActionRow());
+    const button = new MessageButton()
+      .setCustomId(PANEL_BUTTON.encode({ emoji: binding.emoji }))
+      .setEmoji(binding.emoji)
+      .setStyle("SECONDARY");
+    if (binding.label) button.setLabel(binding.label);
+    rows[rows.length - 1].addComponents(button);
+  });
+  return rows;
+}
+
+async function fetchPanelMessage(client: Client, panel: RolePanel): Promise<Message | undefined> {
+  try {
+    const channel = await client.channels.fetch(panel.channelId);
+    if (!channel?.isText()) return undefined;
+    return await (channel as TextBasedChannel).messages.fetch(panel.messageId);
+  } catch {
+    return undefined;
+  }
+}
+
+// Brings a panel's message in line with what's stored, which is also how panels come back on startup
+async function renderPanel(client: Client, panel: RolePanel): Promise<void> {
+  const message = await fetchPanelMessage(client, panel);
+  if (!message) {
+    console.log(`Couldn't find role panel ${panel.messageId} in channel ${panel.channelId}`);
+    return;
+  }
+  await message.edit({
+    content: null,
+    embeds: [panelEmbed(panel)],
+    components: panelButtons(panel),
+  });
+  const reactions = [...message.reactions.cache.values()];
+  for (const reaction of reactions.filter((reaction) => reaction.me)) {
+    const bound = panel.bindings.some((binding) =>
+      sameEmoji(binding.emoji, reaction.emoji.toString())
+    );
+    if (panel.buttons || !bound) await reaction.users.remove(client.user!.id);
+  }
+  if (panel.buttons) return;
+  for (const binding of panel.bindings) {
+    const reacted = reactions.some(
+      (reaction) => reaction.me && sameEmoji(binding.emoji, reaction.emoji.toString())
+    );
+    if (!reacted) await message.react(binding.emoji);
+  }
+}
+
+// Gives a member the role, or takes it away, taking away the panel's other roles first if need be
+async function applyRole(
+  panel: RolePanel,
+  member: GuildMember,
+  binding: RoleBinding,
+  add: boolean
+): Promise<void> {
+  if (!add) {
+    await member.roles.remove(binding.roleId);
+    return;
+  }
+  if (panel.exclusive) {
+    const others = panel.bindings
+      .filter((other) => other.roleId !== binding.roleId)
+      .map((other) => other.roleId)
+      .filter((roleId) => member.roles.cache.has(roleId));
+    if (others.length) await member.roles.remove(others);
+  }
+  await member.roles.add(binding.roleId);
+}
+
+async function onPanelReaction(
+  reaction: MessageReaction,
+  user: User,
+  added: boolean
+): Promise<boolean> {
+  const panel = rolePanels.get(reaction.message.id);
+  if (!panel) return false;
+  if (user.bot || panel.buttons) return true;
+  const binding = panel.bindings.find((binding) =>
+    sameEmoji(binding.emoji, reaction.emoji.toString())
+  );
+  const member = await reaction.message.guild?.members.fetch(user.id);
+  if (!binding || !member) return true;
+  console.log(`${added ? "Adding" : "Removing"} role ${binding.roleId} for user ${user.username}`);
+  await applyRole(panel, member, binding, added);
+  // An exclusive panel should only show the member's one pick
+  if (added && panel.exclusive) {
+    for (const other of reaction.message.reactions.cache.values()) {
+      if (other !== reaction && other.users.cache.has(user.id)) await other.users.remove(user.id);
+    }
+  }
+  return true;
+}
+
+async function onPanelButton(
+  interaction: MessageComponentInteraction,
+  { emoji }: { emoji: string }
+) {
+  const panel = rolePanels.get(interaction.message.id);
+  const binding = panel?.bindings.find((binding) => sameEmoji(binding.emoji, emoji));
+  const member = await interaction.guild?.members.fetch(interaction.user.id);
+  if (!panel || !binding || !member) {
+    await interaction.reply({ content: "That role isn't on offer any more.", ephemeral: true });
+    return;
+  }
+  const add = !member.roles.cache.has(binding.roleId);
+  await applyRole(panel, member, binding, add);
+  await interaction.reply({
+    content: `${add ? "You now have" : "You no longer have"} <@&${binding.roleId}>.`,
+    ephemeral: true,
+  });
+}
+
+export function attachRolePanelCommands(discordClient: DiscordClient, databaseClientPool: Pool) {
+  const client = discordClient.client();
+  client.on("ready", async () => {
+    for (const panel of rolePanels.values()) {
+      if (!client.guilds.cache.has(panel.guildId)) continue;
+      await renderPanel(client, panel).catch((error) => console.log(error));
+    }
+  });
+  discordClient.attachReactionHandler(onPanelReaction);
+  discordClient.attachComponent(PANEL_BUTTON, onPanelButton);
+
+  const panelOption = {
+    name: "panel",
+    description: "The role panel, by title or message id.",
+    type: ApplicationCommandOptionType.String,
+    required: true,
+    autocomplete: (input: string, interaction: AutocompleteInteraction) =>
+      [...rolePanels.values()]
+        .filter((panel) => panel.guildId === interaction.guildId)
+        .filter((panel) => panel.title.toLowerCase().includes(input.toLowerCase()))
+        .map((panel) => ({ name: panel.title.slice(0, 100), value: panel.messageId })),
+  };
+  discordClient.attachCommand(
+    "rolepanel",
+    [
+      {
+        name: "title",
+        description: "What the panel is for, shown at the top of it.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+      },
+      {
+        name: "exclusive",
+        description: "Whether members can only pick one of the panel's roles.",
+        type: ApplicationCommandOptionType.Boolean,
+        required: false,
+      },
+      {
+        name: "buttons",
+        description: "Whether to use buttons rather than reactions.",
+        type: ApplicationCommandOptionType.Boolean,
+        required: false,
+      },
+      {
+        name: "channel",
+        description: "Where to post the panel (defaults to here).",
+        type: ApplicationCommandOptionType.Channel,
+        required: false,
+      },
+    ],
+    (interaction: CommandInteraction) => createPanel(interaction, databaseClientPool),
+    "Post a new panel members can take roles from."
+  );
+  discordClient.attachCommand(
+    "editpanel",
+    [
+      panelOption,
+      {
+        name: "title",
+        description: "The panel's new title.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+      {
+        name: "exclusive",
+        description: "Whether members can only pick one of the panel's roles.",
+        type: ApplicationCommandOptionType.Boolean,
+        required: false,
+      },
+      {
+        name: "buttons",
+        description: "Whether to use buttons rather than reactions.",
+        type: ApplicationCommandOptionType.Boolean,
+        required: false,
+      },
+    ],
+    (interaction: CommandInteraction) => editPanel(interaction, databaseClientPool),
+    "Change a role panel's title, or how it works."
+  );
+  discordClient.attachCommand(
+    "removepanel",
+    [panelOption],
+    (interaction: CommandInteraction) => removePanel(interaction, databaseClientPool),
+    "Delete a role panel. Members keep the roles they took from it."
+  );
+  discordClient.attachCommand(
+    "rolebind",
+    [
+      panelOption,
+      {
+        name: "emoji",
+        description: "The emoji members react with or click.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+      },
+      {
+        name: "role",
+        description: "The role it gives.",
+        type: ApplicationCommandOptionType.Role,
+        required: true,
+      },
+      {
+        name: "label",
+        description: "A few words about the role.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+    ],
+    (interaction: CommandInteraction) => bindRole(interaction, databaseClientPool),
+    "Add a role to a panel, or change the role an emoji gives."
+  );
+  discordClient.attachCommand(
+    "roleunbind",
+    [
+      panelOption,
+      {
+        name: "emoji",
+        description: "The emoji to take off the panel.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+      },
+    ],
+    (interaction: CommandInteraction) => unbindRole(interaction, databaseClientPool),
+    "Take a role off a panel."
+  );
+}
+
+function findPanel(interaction: CommandInteraction): RolePanel | undefined {
+  const search = interaction.options.getString("panel", true);
+  const panels = [...rolePanels.values()].filter((panel) => panel.guildId === interaction.guildId);
+  return (
+    panels.find((panel) => panel.messageId === search) ??
+    panels.find((panel) => panel.title.toLowerCase() === search.toLowerCase())
+  );
+}
+
+async function createPanel(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const channel = interaction.options.getChannel("channel", false) ?? interaction.channel;
+  if (!interaction.guildId || !channel || !("send" in channel)) {
+    interaction.reply({
+      content: "Role panels have to go in a server's text channel.",
+      ephemeral: true,
+    });
+    return;
+  }
+  const panel: RolePanel = {
+    messageId: "",
+    guildId: interaction.guildId,
+    channelId: channel.id,
+    title: interaction.options.getString("title", true),
+    exclusive: interaction.options.getBoolean("exclusive", false) ?? false,
+    buttons: interaction.options.getBoolean("buttons", false) ?? false,
+    bindings: [],
+  };
+  const message = await (channel as TextBasedChannel).send({ embeds: [panelEmbed(panel)] });
+  panel.messageId = message.id;
+  await databaseClientPool.query(
+    "INSERT INTO role_panels (message_id, guild_id, channel_id, title, exclusive, buttons) VALUES ($1, $2, $3, $4, $5, $6);",
+    [panel.messageId, panel.guildId, panel.channelId, panel.title, panel.exclusive, panel.buttons]
+  );
+  await syncRolePanels(databaseClientPool);
+  interaction.reply({
+    content: `Posted "${panel.title}" in <#${panel.channelId}>. Add roles to it with /rolebind.`,
+    ephemeral: true,
+  });
+}
+
+async function editPanel(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const panel = findPanel(interaction);
+  if (!panel) {
+    interaction.reply({ content: "Role panel not recognised.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply({ ephemeral: true });
+  await databaseClientPool.query(
+    "UPDATE role_panels SET title = $2, exclusive = $3, buttons = $4 WHERE message_id = $1;",
+    [
+      panel.messageId,
+      interaction.options.getString("title", false) ?? panel.title,
+      interaction.options.getBoolean("exclusive", false) ?? panel.exclusive,
+      interaction.options.getBoolean("buttons", false) ?? panel.buttons,
+    ]
+  );
+  await syncRolePanels(databaseClientPool);
+  await renderPanel(interaction.client, rolePanels.get(panel.messageId)!);
+  await interaction.editReply("Role panel updated.");
+}
+
+async function removePanel(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const panel = findPanel(interaction);
+  if (!panel) {
+    interaction.reply({ content: "Role panel not recognised.", ephemeral: true });
+    return;
+  }
+  await databaseClientPool.query("DELETE FROM role_panels WHERE message_id = $1;", [
+    panel.messageId,
+  ]);
+  await syncRolePanels(databaseClientPool);
+  await (await fetchPanelMessage(interaction.client, panel))?.delete().catch(() => {});
+  interaction.reply({ content: `Removed "${panel.title}".`, ephemeral: true });
+}
+
+async function bindRole(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const panel = findPanel(interaction);
+  if (!panel) {
+    interaction.reply({ content: "Role panel not recognised.", ephemeral: true });
+    return;
+  }
+  const emoji = interaction.options.getString("emoji", true).trim();
+  const role = interaction.options.getRole("role", true);
+  const label = interaction.options.getString("label", false);
+  const existing = panel.bindings.find((binding) => sameEmoji(binding.emoji, emoji));
+  if (!existing && panel.bindings.length >= MAX_BINDINGS) {
+    interaction.reply({
+      content: `A panel can't hold more than ${MAX_BINDINGS} roles.`,
+      ephemeral: true,
+    });
+    return;
+  }
+  const problem = roleProblem(interaction, role.id);
+  if (problem) {
+    interaction.reply({ content: problem, ephemeral: true });
+    return;
+  }
+  await interaction.deferReply({ ephemeral: true });
+  await databaseClientPool.query(
+    "INSERT INTO role_panel_bindings (message_id, emoji, role_id, label) VALUES ($1, $2, $3, $4) ON CONFLICT (message_id, emoji) DO UPDATE SET role_id = $3, label = $4;",
+    [panel.messageId, existing?.emoji ?? emoji, role.id, label]
+  );
+  await syncRolePanels(databaseClientPool);
+  try {
+    await renderPanel(interaction.client, rolePanels.get(panel.messageId)!);
+  } catch (error) {
+    // Discord turns down emoji it doesn't know, so put the binding back how it was rather than
+    // keep one the panel can't show
+    if (existing) {
+      await databaseClientPool.query(
+        "UPDATE role_panel_bindings SET role_id = $3, label = $4 WHERE message_id = $1 AND emoji = $2;",
+        [panel.messageId, existing.emoji, existing.roleId, existing.label ?? null]
+      );
+    } else {
+      await databaseClientPool.query(
+        "DELETE FROM role_panel_bindings WHERE message_id = $1 AND emoji = $2;",
+        [panel.messageId, emoji]
+      );
+    }
+    await syncRolePanels(databaseClientPool);
+    await interaction.editReply(`I couldn't use ${emoji} as an emoji.`);
+    return;
+  }
+  await interaction.editReply(`${existing?.emoji ?? emoji} now gives <@&${role.id}>.`);
+}
+
+async function unbindRole(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const panel = findPanel(interaction);
+  if (!panel) {
+    interaction.reply({ content: "Role panel not recognised.", ephemeral: true });
+    return;
+  }
+  const emoji = interaction.options.getString("emoji", true).trim();
+  const binding = panel.bindings.find((binding) => sameEmoji(binding.emoji, emoji));
+  if (!binding) {
+    interaction.reply({ content: `${emoji} isn't on that panel.`, ephemeral: true });
+    return;
+  }
+  await interaction.deferReply({ ephemeral: true });
+  await databaseClientPool.query(
+    "DELETE FROM role_panel_bindings WHERE message_id = $1 AND emoji = $2;",
+    [panel.messageId, binding.emoji]
+  );
+  await syncRolePanels(databaseClientPool);
+  await renderPanel(interaction.client, rolePanels.get(panel.messageId)!);
+  await interaction.editReply(`Took ${binding.emoji} off "${panel.title}".`);
+}
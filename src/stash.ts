@@ -0,0 +1,68 @@
+import { decode } from "html-entities";
+
+export type StashItem = {
+  id: number;
+  name: string;
+  quantity: number;
+};
+
+export type StashLogEntry = {
+  playerId: number;
+  username: string;
+  action: "took" | "added";
+  item: string;
+  quantity: number;
+  // Milliseconds since the epoch; KoL only gives the minute
+  happened: number;
+};
+
+// The Goodies Hoard is the select in the form that takes things out, not the one that puts them in
+const TAKE_FORM_MATCHER = /value=['"]?takegoodies['"]?[\s\S]*?<\/select>/i;
+const STASH_ITEM_MATCHER =
+  /<option value=['"]?(\d+)['"]?[^>]*>([^<]+?)(?: \(([\d,]+)\))?<\/option>/gi;
+const STASH_ACTIVITY_MATCHER = /Stash Activity:([\s\S]*?)(?:<b>|$)/i;
+const STASH_LOG_MATCHER =
+  /(\d\d)\/(\d\d)\/(\d\d), (\d\d):(\d\d)([AP]M): <a[^>]*who=(\d+)[^>]*>([^<]+?) \(#\d+\)<\/a> (took|added) ([\d,]+) (.+?)\.?\s*(?:<br|$)/gim;
+
+export function parseStash(page: string): StashItem[] {
+  const form = TAKE_FORM_MATCHER.exec(page)?.[0] || "";
+  return [...form.matchAll(STASH_ITEM_MATCHER)]
+    .filter((match) => match[1] !== "0")
+    .map((match) => ({
+      id: parseInt(match[1]),
+      name: decode(match[2]).trim(),
+      quantity: parseInt((match[3] || "1").replace(/,/g, "")),
+    }));
+}
+
+// The clan log gives times in the Kingdom's own time zone, which is Arizona's all year round
+function kingdomTime(
+  month: string,
+  day: string,
+  year: string,
+  hours: string,
+  minutes: string,
+  half: string
+): number {
+  const hour = (parseInt(hours) % 12) + (half.toUpperCase() === "PM" ? 12 : 0);
+  return Date.UTC(
+    2000 + parseInt(year),
+    parseInt(month) - 1,
+    parseInt(day),
+    hour + 7,
+    parseInt(minutes)
+  );
+}
+
+// Entries come back newest first, as the clan log lists them
+export function parseStashLog(page: string): StashLogEntry[] {
+  const activity = STASH_ACTIVITY_MATCHER.exec(page)?.[1] || "";
+  return [...activity.matchAll(STASH_LOG_MATCHER)].map((match) => ({
+    playerId: parseInt(match[7]),
+    username: decode(match[8]),
+    action: match[9] as "took" | "added",
+    item: decode(match[11]).trim(),
+    quantity: parseInt(match[10].replace(/,/g, "")),
+    happened: kingdomTime(match[1], match[2], match[3], match[4], match[5], match[6]),
+  }));
+}
@@ -0,0 +1,314 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import { Client, CommandInteraction, TextBasedChannel, Util } from "discord.js";
+import { Pool } from "pg";
+import { clanChoices, findClan, getClans } from "./clans";
+import { DiscordClient } from "./discord";
+import { alertChannelIds } from "./guildsettings";
+import { KOLClient, KoLUnavailableError } from "./kolclient";
+import { StashItem, StashLogEntry } from "./stash";
+
+// How often to read every clan's stash log
+const POLL_INTERVAL = 30 * 60 * 1000;
+// How many items one player can take between looks before it's worth a mention
+const UNUSUAL_WITHDRAWAL = 5;
+// How many entries /stashlog shows at once
+const LOG_LENGTH = 20;
+// Discord won't show an embed description longer than this
+const DESCRIPTION_LIMIT = 4096;
+
+export function attachStashCommands(
+  discordClient: DiscordClient,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+) {
+  discordClient.attachCommand(
+    "stash",
+    [
+      {
+        name: "clan",
+        description: "The clan whose stash to look in.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: (input: string) => clanChoices(input),
+      },
+    ],
+    (interaction: CommandInteraction) => stash(interaction, kolClient, databaseClientPool),
+    "List what's in a clan's stash."
+  );
+  discordClient.attachCommand(
+    "stashlog",
+    [
+      {
+        name: "clan",
+        description: "The clan whose stash log to read.",
+        type: ApplicationCommandOptionType.String,
+        required: true,
+        autocomplete: (input: string) => clanChoices(input),
+      },
+      {
+        name: "player",
+        description: "Only show what this player took or added.",
+        type: ApplicationCommandOptionType.String,
+        required: false,
+      },
+    ],
+    (interaction: CommandInteraction) => stashLog(interaction, kolClient, databaseClientPool),
+    "Show who has taken things from or added things to a clan's stash."
+  );
+}
+
+async function recordStash(
+  databaseClientPool: Pool,
+  clanId: number,
+  items: StashItem[]
+): Promise<void> {
+  const seen = Date.now();
+  await databaseClientPool.query("DELETE FROM stash_snapshots WHERE clan_id = $1;", [clanId]);
+  for (const item of items) {
+    await databaseClientPool.query(
+      "INSERT INTO stash_snapshots (clan_id, item_id, name, quantity, seen) VALUES ($1, $2, $3, $4, $5);",
+      [clanId, item.id, item.name, item.quantity, seen]
+    );
+  }
+}
+
+function entryKey(entry: { playerId: number; action: string; item: string; quantity: number }) {
+  return `${entry.playerId}:${entry.action}:${entry.quantity}:${entry.item}`;
+}
+
+// Stores whatever the clan log shows that we haven't stored already, and returns just those entries.
+// The log only gives the minute, so entries from the last minute we stored are matched up one by one.
+export async function recordStashLog(
+  kolClient: KOLClient,
+  databaseClientPool: Pool,
+  clanId: number
+): Promise<{ entries: StashLogEntry[]; firstLook: boolean }> {
+  const entries = (await kolClient.getStashLog(clanId)).reverse();
+  const latest = (
+    await databaseClientPool.query(
+      "SELECT MAX(happened) AS latest FROM stash_log WHERE clan_id = $1;",
+      [clanId]
+    )
+  ).rows[0].latest;
+  const latestTime = latest === null ? 0 : parseInt(latest);
+  const known =
+    latest === null
+      ? []
+      : (
+          await databaseClientPool.query(
+            "SELECT * FROM stash_log WHERE clan_id = $1 AND happened = $2;",
+            [clanId, latestTime]
+          )
+        ).rows.map((row) =>
+          entryKey({
+            playerId: row.player_id,
+            action: row.action,
+            item: row.item,
+            quantity: row.quantity,
+          })
+        );
+  const fresh = entries.filter((entry) => {
+    if (entry.happened < latestTime) return false;
+    const index = entry.happened === latestTime ? known.indexOf(entryKey(entry)) : -1;
+    if (index < 0) return true;
+    known.splice(index, 1);
+    return false;
+  });
+  for (const entry of fresh) {
+    await databaseClientPool.query(
+      "INSERT INTO stash_log (clan_id, player_id, username, action, item, quantity, happened) VALUES ($1, $2, $3, $4, $5, $6, $7);",
+      [
+        clanId,
+        entry.playerId,
+        entry.username,
+        entry.action,
+        entry.item,
+        entry.quantity,
+        entry.happened,
+      ]
+    );
+  }
+  return { entries: fresh, firstLook: latest === null };
+}
+
+export function unusualWithdrawals(clanName: string, entries: StashLogEntry[]): string[] {
+  const withdrawals: Map<number, StashLogEntry[]> = new Map();
+  for (const entry of entries.filter((entry) => entry.action === "took")) {
+    withdrawals.set(entry.playerId, [...(withdrawals.get(entry.playerId) || []), entry]);
+  }
+  return [...withdrawals.values()]
+    .filter(
+      (taken) => taken.reduce((total, entry) => total + entry.quantity, 0) >= UNUSUAL_WITHDRAWAL
+    )
+    .map((taken) => {
+      const total = taken.reduce((sum, entry) => sum + entry.quantity, 0);
+      const items = taken.map((entry) => `${entry.quantity} ${entry.item}`).join(", ");
+      return `${taken[0].username} (#${taken[0].playerId}) took ${total} items from the ${clanName} stash: ${items}.`;
+    });
+}
+
+function describeItems(items: { name: string; quantity: number }[]): string {
+  const lines = [...items]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(
+      (item) => `${Util.escapeMarkdown(item.name)}${item.quantity > 1 ? ` ×${item.quantity}` : ""}`
+    );
+  let description = "";
+  for (const [index, line] of lines.entries()) {
+    const more = `\n...and ${lines.length - index} more.`;
+    if (description.length + line.length + 1 + more.length > DESCRIPTION_LIMIT) {
+      return description + more;
+    }
+    description += `${line}\n`;
+  }
+  return description || "The stash is empty.";
+}
+
+async function stash(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  const clan = findClan(interaction.options.getString("clan", true));
+  if (!clan) {
+    interaction.reply({ content: "That isn't one of our clans.", ephemeral: true });
+    return;
+  }
+  await interaction.deferReply();
+  try {
+    const items = await kolClient.getStash(clan.id);
+    await recordStash(databaseClientPool, clan.id, items);
+    await interaction.editReply({
+      content: null,
+      embeds: [{ title: `${clan.name} Stash`, description: describeItems(items) }],
+    });
+  } catch (error) {
+    if (!(error instanceof KoLUnavailableError)) throw error;
+    // Fall back on the last look we had, so a down Kingdom doesn't leave people with nothing
+    const rows = (
+      await databaseClientPool.query("SELECT * FROM stash_snapshots WHERE clan_id = $1;", [clan.id])
+    ).rows;
+    if (!rows.length) {
+      await interaction.editReply(error.message);
+      return;
+    }
+    await interaction.editReply({
+      content: `${error.message} This is the stash as of <t:${Math.floor(
+        parseInt(rows[0].seen) / 1000
+      )}:R>.`,
+      embeds: [{ title: `${clan.name} Stash`, description: describeItems(rows) }],
+    });
+  }
+}
+
+async function stashLog(
+  interaction: CommandInteraction,
+  kolClient: KOLClient,
+  databaseClientPool: Pool
+): Promise<void> {
+  const clan = findClan(interaction.options.getString("clan", true));
+  if (!clan) {
+    interaction.reply({ content: "That isn't one of our clans.", ephemeral: true });
+    return;
+  }
+  const player = interaction.options.getString("player", false);
+  await interaction.deferReply();
+  let warning = "";
+  try {
+    await recordStashLog(kolClient, databaseClientPool, clan.id);
+  } catch (error) {
+    if (!(error instanceof KoLUnavailableError)) throw error;
+    warning = `${error.message} Anything since I last read the log is missing.\n`;
+  }
+  const rows = (
+    await databaseClientPool.query(
+      player
+        ? "SELECT * FROM stash_log WHERE clan_id = $1 AND LOWER(username) = LOWER($3) ORDER BY happened DESC, entry_id DESC LIMIT $2;"
+        : "SELECT * FROM stash_log WHERE clan_id = $1 ORDER BY happened DESC, entry_id DESC LIMIT $2;",
+      player ? [clan.id, LOG_LENGTH, player] : [clan.id, LOG_LENGTH]
+    )
+  ).rows;
+  if (!rows.length) {
+    await interaction.editReply(
+      `${warning}I haven't seen ${player ? `${player} use` : "anyone use"} the ${clan.name} stash.`
+    );
+    return;
+  }
+  await interaction.editReply({
+    content: warning || null,
+    embeds: [
+      {
+        title: `${clan.name} Stash Log${player ? ` for ${player}` : ""}`,
+        description: rows
+          .map(
+            (row) =>
+              `<t:${Math.floor(parseInt(row.happened) / 1000)}:f> **${Util.escapeMarkdown(
+                row.username
+              )}** ${row.action} ${row.quantity} ${Util.escapeMarkdown(row.item)}`
+          )
+          .join("\n"),
+      },
+    ],
+    allowedMentions: { parse: [] },
+  });
+}
+
+// Reads every clan's stash log as it grows and posts to the channels following that clan when someone
+// takes a lot at once. Servers pick their channel with /config; the one given here hears about every clan.
+export class StashWatcher {
+  private _kolClient: KOLClient;
+  private _databaseClientPool: Pool;
+  private _discordClient: Client;
+  private _channelId?: string;
+  private _channels: Map<string, TextBasedChannel> = new Map();
+
+  constructor(
+    kolClient: KOLClient,
+    databaseClientPool: Pool,
+    discordClient: Client,
+    channelId?: string
+  ) {
+    this._kolClient = kolClient;
+    this._databaseClientPool = databaseClientPool;
+    this._discordClient = discordClient;
+    this._channelId = channelId;
+  }
+
+  start(): void {
+    setInterval(() => this.check(), POLL_INTERVAL);
+    this.check();
+  }
+
+  private async channel(channelId: string): Promise<TextBasedChannel | undefined> {
+    if (!this._channels.has(channelId)) {
+      const channel = await this._discordClient.channels.fetch(channelId);
+      if (channel?.isText()) this._channels.set(channelId, channel);
+    }
+    return this._channels.get(channelId);
+  }
+
+  private async check(): Promise<void> {
+    for (const clan of getClans()) {
+      const channelIds = alertChannelIds("stash", clan.id);
+      if (this._channelId) channelIds.push(this._channelId);
+      if (!channelIds.length) continue;
+      let result: { entries: StashLogEntry[]; firstLook: boolean };
+      try {
+        result = await recordStashLog(this._kolClient, this._databaseClientPool, clan.id);
+      } catch (error) {
+        // The log keeps, so anything missed now will be read once the Kingdom is back
+        if (error instanceof KoLUnavailableError) return;
+        console.log(`Couldn't read the stash log in ${clan.name}`, error);
+        continue;
+      }
+      // The first read of a clan's log is its whole history, not something that just happened
+      if (result.firstLook) continue;
+      const alerts = unusualWithdrawals(clan.name, result.entries);
+      if (!alerts.length) continue;
+      for (const channelId of new Set(channelIds)) {
+        const channel = await this.channel(channelId).catch(() => undefined);
+        await channel?.send({ content: alerts.join("\n"), allowedMentions: { parse: [] } });
+      }
+    }
+  }
+}
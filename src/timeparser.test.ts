@@ -0,0 +1,146 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { describeRecurrence, nextOccurrence, parseTime } from "./timeparser";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Midday on Friday 16 October 2026, UTC, when rollover (03:30 UTC) is 15 and a half hours away
+const NOW = Date.UTC(2026, 9, 16, 12, 0);
+
+test("reads waits", () => {
+  assert.deepEqual(parseTime("3h", NOW), { time: NOW + 3 * HOUR, local: false });
+  assert.deepEqual(parseTime("in 1d12h", NOW), { time: NOW + 36 * HOUR, local: false });
+  assert.deepEqual(parseTime(" 2W ", NOW), { time: NOW + 14 * DAY, local: false });
+});
+
+test("reads times around rollover", () => {
+  const rollover = Date.UTC(2026, 9, 17, 3, 30);
+  assert.equal(parseTime("rollover", NOW)?.time, rollover + 10 * 60 * 1000);
+  assert.equal(parseTime("after rollover", NOW)?.time, rollover + 10 * 60 * 1000);
+  assert.equal(parseTime("at rollover", NOW)?.time, rollover);
+  assert.equal(parseTime("before rollover", NOW)?.time, rollover - 30 * 60 * 1000);
+  assert.equal(parseTime("rollover+1h", NOW)?.time, rollover + HOUR);
+  assert.equal(parseTime("at rollover - 2h", NOW)?.time, rollover - 2 * HOUR);
+  assert.equal(parseTime("rollover", NOW)?.local, false);
+});
+
+test("picks today's rollover when its offset is still ahead", () => {
+  const justAfter = Date.UTC(2026, 9, 16, 3, 35);
+  assert.equal(parseTime("rollover", justAfter)?.time, Date.UTC(2026, 9, 16, 3, 40));
+  assert.equal(parseTime("at rollover", justAfter)?.time, Date.UTC(2026, 9, 17, 3, 30));
+  assert.equal(parseTime("rollover-1h", justAfter)?.time, Date.UTC(2026, 9, 17, 2, 30));
+});
+
+test("reads times of day, moving ones already gone to tomorrow", () => {
+  assert.deepEqual(parseTime("18:30", NOW), { time: Date.UTC(2026, 9, 16, 18, 30), local: true });
+  assert.equal(parseTime("6 pm", NOW)?.time, Date.UTC(2026, 9, 16, 18, 0));
+  assert.equal(parseTime("at noon", NOW)?.time, Date.UTC(2026, 9, 17, 12, 0));
+  assert.equal(parseTime("9am", NOW)?.time, Date.UTC(2026, 9, 17, 9, 0));
+  assert.equal(parseTime("midnight", NOW)?.time, Date.UTC(2026, 9, 17, 0, 0));
+  assert.equal(parseTime("12am", NOW)?.time, Date.UTC(2026, 9, 17, 0, 0));
+});
+
+test("reads days, with or without a time of day", () => {
+  assert.equal(parseTime("today 9pm", NOW)?.time, Date.UTC(2026, 9, 16, 21, 0));
+  assert.equal(parseTime("tomorrow", NOW)?.time, Date.UTC(2026, 9, 17, 9, 0));
+  assert.equal(parseTime("tomorrow at 7:15am", NOW)?.time, Date.UTC(2026, 9, 17, 7, 15));
+  assert.equal(parseTime("monday", NOW)?.time, Date.UTC(2026, 9, 19, 9, 0));
+  assert.equal(parseTime("on tues 20:00", NOW)?.time, Date.UTC(2026, 9, 20, 20, 0));
+  assert.equal(parseTime("2026-11-01", NOW)?.time, Date.UTC(2026, 10, 1, 9, 0));
+  assert.equal(parseTime("2026/11/01 18:00", NOW)?.time, Date.UTC(2026, 10, 1, 18, 0));
+});
+
+test("takes the same weekday to mean next week once its time has gone", () => {
+  assert.equal(parseTime("friday", NOW)?.time, Date.UTC(2026, 9, 23, 9, 0));
+  assert.equal(parseTime("friday 6pm", NOW)?.time, Date.UTC(2026, 9, 16, 18, 0));
+});
+
+test("reads times of day in the given time zone", () => {
+  // New York is on EDT (UTC-4), where it's 8am
+  assert.deepEqual(parseTime("9am", NOW, "America/New_York"), {
+    time: Date.UTC(2026, 9, 16, 13, 0),
+    local: true,
+  });
+  // London is on BST (UTC+1)
+  assert.equal(parseTime("tomorrow 9pm", NOW, "Europe/London")?.time, Date.UTC(2026, 9, 17, 20, 0));
+  // Waits and rollover don't depend on the time zone
+  assert.equal(parseTime("3h", NOW, "Asia/Tokyo")?.time, NOW + 3 * HOUR);
+  assert.equal(parseTime("at rollover", NOW, "Asia/Tokyo")?.time, Date.UTC(2026, 9, 17, 3, 30));
+});
+
+test("counts days from the date in the given time zone", () => {
+  // 11:30pm on Friday in UTC is already 8:30am on Saturday in Tokyo (UTC+9)
+  const lateFriday = Date.UTC(2026, 9, 16, 23, 30);
+  assert.equal(parseTime("today 9am", lateFriday, "Asia/Tokyo")?.time, Date.UTC(2026, 9, 17, 0, 0));
+  assert.equal(parseTime("tomorrow", lateFriday, "Asia/Tokyo")?.time, Date.UTC(2026, 9, 18, 0, 0));
+  assert.equal(parseTime("8am", lateFriday, "Asia/Tokyo")?.time, Date.UTC(2026, 9, 17, 23, 0));
+  assert.equal(parseTime("saturday", lateFriday, "Asia/Tokyo")?.time, Date.UTC(2026, 9, 17, 0, 0));
+});
+
+test("uses the right offset on the days the clocks change", () => {
+  // New York goes back to EST (UTC-5) at 2am on 1 November 2026...
+  assert.equal(
+    parseTime("2026-11-01 18:00", NOW, "America/New_York")?.time,
+    Date.UTC(2026, 10, 1, 23, 0)
+  );
+  assert.equal(
+    parseTime("2026-11-01 00:30", NOW, "America/New_York")?.time,
+    Date.UTC(2026, 10, 1, 4, 30)
+  );
+  // ...and London back to GMT at 2am BST on 25 October
+  assert.equal(
+    parseTime("2026-10-25 12:00", NOW, "Europe/London")?.time,
+    Date.UTC(2026, 9, 25, 12, 0)
+  );
+  assert.equal(
+    parseTime("2026-10-24 12:00", NOW, "Europe/London")?.time,
+    Date.UTC(2026, 9, 24, 11, 0)
+  );
+});
+
+test("reads repeats", () => {
+  assert.deepEqual(parseTime("every rollover", NOW), {
+    time: Date.UTC(2026, 9, 17, 3, 40),
+    recurrence: "rollover",
+    local: false,
+  });
+  assert.deepEqual(parseTime("every Mondays", NOW), {
+    time: Date.UTC(2026, 9, 19, 3, 40),
+    recurrence: "monday",
+    local: false,
+  });
+  assert.deepEqual(parseTime("every 12h", NOW), {
+    time: NOW + 12 * HOUR,
+    recurrence: "12h",
+    local: false,
+  });
+});
+
+test("works out when repeats next go off", () => {
+  assert.equal(nextOccurrence("rollover", NOW), Date.UTC(2026, 9, 17, 3, 40));
+  assert.equal(nextOccurrence("friday", NOW), Date.UTC(2026, 9, 23, 3, 40));
+  assert.equal(nextOccurrence("1d", NOW), NOW + DAY);
+  assert.equal(describeRecurrence("rollover"), "every rollover");
+  assert.equal(describeRecurrence("monday"), "every Monday after rollover");
+  assert.equal(describeRecurrence("12h"), "every 12h");
+});
+
+test("rejects what it can't read", () => {
+  for (const input of [
+    "",
+    "soon",
+    "9",
+    "25:00",
+    "13pm",
+    "9:75",
+    "2026-02-30",
+    "tomorrow friday",
+    "monday 9am 10am",
+    "before rollover+1h",
+    "rollover+soon",
+    "every 30m",
+    "every fortnight",
+  ]) {
+    assert.equal(parseTime(input, NOW), undefined, `"${input}" should be rejected`);
+  }
+});
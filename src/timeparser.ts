@@ -0,0 +1,245 @@
+import { nextRollover } from "./utils";
+
+export type ParsedTime = {
+  time: number;
+  recurrence?: string;
+  // Whether the time was read as a clock time or date, and so depends on the time zone
+  local: boolean;
+};
+
+// Reminders "after rollover" go out once the Kingdom is likely to be back
+const AFTER_ROLLOVER = 10 * 60 * 1000;
+// ...and ones "before rollover" leave time to finish the day
+const BEFORE_ROLLOVER = 30 * 60 * 1000;
+// Anything repeating more often than this is more spam than reminder
+const MIN_INTERVAL = 60 * 60 * 1000;
+// A date given without a time of day means that morning
+const DEFAULT_HOUR = 9;
+const DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const durationMatcher =
+  /^(?<weeks>\d+w)?(?<days>\d+d)?(?<hours>\d+h)?(?<minutes>\d+m)?(?<seconds>\d+s)?$/;
+const rolloverMatcher = /^(?:(at|after|before) )?rollover(?: ?([+-]) ?(\S+))?$/;
+const dateMatcher = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/;
+const clockMatcher = /^(\d{1,2})(?::(\d{2}))? ?(am|pm)?$/;
+
+function durationOf(time: string): number | undefined {
+  const timeMatch = durationMatcher.exec(time);
+  if (!time || !timeMatch) return undefined;
+  return (
+    7 * DAY * parseInt(timeMatch?.groups?.weeks || "0") +
+    DAY * parseInt(timeMatch?.groups?.days || "0") +
+    60 * 60 * 1000 * parseInt(timeMatch?.groups?.hours || "0") +
+    60 * 1000 * parseInt(timeMatch?.groups?.minutes || "0") +
+    1000 * parseInt(timeMatch?.groups?.seconds || "0")
+  );
+}
+
+function weekdayOf(text: string): number {
+  const day = text.replace(/s$/, "");
+  return day.length >= 3 ? WEEKDAYS.findIndex((weekday) => weekday.startsWith(day)) : -1;
+}
+
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar date and clock time the given moment has in a time zone
+function wallClock(time: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(time);
+  const part = (type: string) => parseInt(parts.find((found) => found.type === type)?.value || "0");
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+// The moment a clock in the given time zone shows this date and time. Checking the offset twice
+// gets it right on the days the clocks change.
+function fromWallClock(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number {
+  const asUTC = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = (time: number) => {
+    const clock = wallClock(time, timeZone);
+    return (
+      Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second) -
+      Math.floor(time / 1000) * 1000
+    );
+  };
+  const guess = asUTC - offset(asUTC);
+  return asUTC - offset(guess);
+}
+
+function parseClock(text: string): { hour: number; minute: number } | undefined {
+  if (text === "noon") return { hour: 12, minute: 0 };
+  if (text === "midnight") return { hour: 0, minute: 0 };
+  const match = clockMatcher.exec(text);
+  if (!match) return undefined;
+  let hour = parseInt(match[1]);
+  const minute = parseInt(match[2] || "0");
+  if (minute > 59) return undefined;
+  if (match[3]) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (match[3] === "pm" ? 12 : 0);
+  } else if (hour > 23 || match[2] === undefined) {
+    // A bare number is more likely a typo than an hour
+    return undefined;
+  }
+  return { hour: hour, minute: minute };
+}
+
+function parseRollover(text: string, now: number): number | undefined {
+  const match = rolloverMatcher.exec(text);
+  if (!match) return undefined;
+  const [, anchor, sign, offsetText] = match;
+  if (anchor === "before" && sign) return undefined;
+  const offset = sign
+    ? (sign === "-" ? -1 : 1) * (durationOf(offsetText) ?? NaN)
+    : anchor === "before"
+    ? -BEFORE_ROLLOVER
+    : anchor === "at"
+    ? 0
+    : AFTER_ROLLOVER;
+  if (isNaN(offset)) return undefined;
+  // Whichever rollover that's still ahead of us once the offset is taken into account
+  return nextRollover(now - offset) + offset;
+}
+
+// A day ("today", "tomorrow", "friday" or "2026-11-01") and/or a time of day ("9pm", "18:30")
+function parseDayAndClock(text: string, now: number, timeZone: string): number | undefined {
+  const words = text
+    .replace(/^(\d{4}-\d{1,2}-\d{1,2})t/, "$1 ")
+    .replace(/ at /, " ")
+    .replace(/(\d) (am|pm)$/, "$1$2")
+    .split(" ");
+  if (words.length > 2) return undefined;
+  const today = wallClock(now, timeZone);
+  const shifted = (days: number) => {
+    const moved = new Date(Date.UTC(today.year, today.month - 1, today.day + days));
+    return {
+      year: moved.getUTCFullYear(),
+      month: moved.getUTCMonth() + 1,
+      day: moved.getUTCDate(),
+    };
+  };
+  let date: { year: number; month: number; day: number } | undefined;
+  let clock: { hour: number; minute: number } | undefined;
+  let rollForward = false;
+  for (const word of words) {
+    const dateMatch = dateMatcher.exec(word);
+    const weekday = weekdayOf(word);
+    if (!date && dateMatch) {
+      date = {
+        year: parseInt(dateMatch[1]),
+        month: parseInt(dateMatch[2]),
+        day: parseInt(dateMatch[3]),
+      };
+      const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+      if (check.getUTCMonth() + 1 !== date.month || check.getUTCDate() !== date.day) {
+        return undefined;
+      }
+    } else if (!date && word === "today") {
+      date = shifted(0);
+    } else if (!date && word === "tomorrow") {
+      date = shifted(1);
+    } else if (!date && weekday >= 0) {
+      const todayWeekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+      date = shifted((weekday - todayWeekday + 7) % 7);
+      // "friday" on a Friday evening means next week's
+      rollForward = true;
+    } else if (!clock && parseClock(word)) {
+      clock = parseClock(word);
+    } else {
+      return undefined;
+    }
+  }
+  if (!date && !clock) return undefined;
+  const { hour, minute } = clock ?? { hour: DEFAULT_HOUR, minute: 0 };
+  const day = date ?? { year: today.year, month: today.month, day: today.day };
+  const time = fromWallClock(day.year, day.month, day.day, hour, minute, timeZone);
+  if (time > now || (date && !rollForward)) return time;
+  // A time of day that's already gone today means tomorrow's, and a weekday means next week's
+  const later = new Date(Date.UTC(day.year, day.month - 1, day.day + (date ? 7 : 1)));
+  return fromWallClock(
+    later.getUTCFullYear(),
+    later.getUTCMonth() + 1,
+    later.getUTCDate(),
+    hour,
+    minute,
+    timeZone
+  );
+}
+
+// When a repeating reminder next goes off after the given time. A recurrence is "rollover",
+// a day of the week (just after that day's rollover), or an interval like "1d" or "12h".
+export function nextOccurrence(recurrence: string, after: number): number {
+  if (recurrence === "rollover") return nextRollover(after - AFTER_ROLLOVER) + AFTER_ROLLOVER;
+  const weekday = WEEKDAYS.indexOf(recurrence);
+  if (weekday >= 0) {
+    let next = nextRollover(after - AFTER_ROLLOVER) + AFTER_ROLLOVER;
+    while (new Date(next).getUTCDay() !== weekday) next += DAY;
+    return next;
+  }
+  return after + (durationOf(recurrence) || DAY);
+}
+
+export function describeRecurrence(recurrence: string): string {
+  if (recurrence === "rollover") return "every rollover";
+  if (WEEKDAYS.includes(recurrence)) {
+    return `every ${recurrence[0].toUpperCase()}${recurrence.slice(1)} after rollover`;
+  }
+  return `every ${recurrence}`;
+}
+
+// Reads when something should happen. That can be a wait ("3h", "in 1d12h"), a point around
+// rollover ("rollover", "before rollover", "at rollover+30m"), a day and/or time of day
+// ("tomorrow 9pm", "friday", "18:30", "2026-11-01 18:00") read in the given time zone,
+// or a repeat ("every rollover", "every monday", "every 12h").
+export function parseTime(
+  input: string,
+  now: number = Date.now(),
+  timeZone: string = "UTC"
+): ParsedTime | undefined {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+  const repeating = /^every (.+)$/.exec(text)?.[1];
+  if (repeating) {
+    const weekday = weekdayOf(repeating);
+    const recurrence = weekday >= 0 ? WEEKDAYS[weekday] : repeating;
+    if (recurrence !== "rollover" && weekday < 0) {
+      const interval = durationOf(recurrence);
+      if (!interval || interval < MIN_INTERVAL) return undefined;
+    }
+    return { time: nextOccurrence(recurrence, now), recurrence: recurrence, local: false };
+  }
+  const wait = durationOf(text.replace(/^in /, ""));
+  if (wait !== undefined) return { time: now + wait, local: false };
+  const rollover = parseRollover(text, now);
+  if (rollover !== undefined) return { time: rollover, local: false };
+  const time = parseDayAndClock(text.replace(/^(?:at|on) /, ""), now, timeZone);
+  return time === undefined ? undefined : { time: time, local: true };
+}
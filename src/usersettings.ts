@@ -0,0 +1,91 @@
+import { ApplicationCommandOptionType } from "discord-api-types/v9";
+import { CommandInteraction } from "discord.js";
+import { Pool } from "pg";
+import { DiscordClient } from "./discord";
+import { isTimeZone } from "./timeparser";
+
+export type UserSettings = {
+  discordId: string;
+  timeZone?: string;
+};
+
+const userSettings: Map<string, UserSettings> = new Map();
+
+export async function syncUserSettings(databaseClientPool: Pool): Promise<void> {
+  userSettings.clear();
+  for (let row of (await databaseClientPool.query("SELECT * FROM user_settings;")).rows) {
+    userSettings.set(row.discord_id, {
+      discordId: row.discord_id,
+      timeZone: row.time_zone ?? undefined,
+    });
+  }
+}
+
+export function getUserSettings(discordId: string): UserSettings {
+  return userSettings.get(discordId) ?? { discordId: discordId };
+}
+
+// Intl can list every zone it knows, but the ES2021 typings don't know that it can
+function timeZones(): string[] {
+  return (Intl as unknown as { supportedValuesOf(key: "timeZone"): string[] }).supportedValuesOf(
+    "timeZone"
+  );
+}
+
+export function attachUserSettingsCommands(discordClient: DiscordClient, databaseClientPool: Pool) {
+  discordClient.attachCommand(
+    "timezone",
+    [
+      {
+        name: "zone",
+        description: 'Your time zone, such as "Europe/London". "none" goes back to UTC.',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        autocomplete: (input: string) =>
+          timeZones()
+            .filter((zone) => zone.toLowerCase().includes(input.toLowerCase().replace(/ /g, "_")))
+            .map((zone) => ({ name: zone, value: zone })),
+      },
+    ],
+    (interaction: CommandInteraction) => setTimeZone(interaction, databaseClientPool),
+    "See or set the time zone OAF reads your times of day in."
+  );
+}
+
+async function setTimeZone(interaction: CommandInteraction, databaseClientPool: Pool) {
+  const zone = interaction.options.getString("zone", false)?.trim();
+  const current = getUserSettings(interaction.user.id).timeZone;
+  if (!zone) {
+    interaction.reply({
+      content: current
+        ? `I read your times in ${current}.`
+        : "I read your times in UTC. Pick your own time zone with /timezone.",
+      ephemeral: true,
+    });
+    return;
+  }
+  const clearing = zone.toLowerCase() === "none";
+  if (!clearing && !isTimeZone(zone)) {
+    interaction.reply({
+      content: `I don't know a time zone called ${zone}. Try one like "America/New_York".`,
+      ephemeral: true,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+  // Intl puts the name in its usual case, so "europe/london" is stored as "Europe/London"
+  const timeZone = clearing
+    ? null
+    : new Intl.DateTimeFormat("en-US", { timeZone: zone }).resolvedOptions().timeZone;
+  await databaseClientPool.query(
+    "INSERT INTO user_settings (discord_id, time_zone) VALUES ($1, $2) ON CONFLICT (discord_id) DO UPDATE SET time_zone = $2;",
+    [interaction.user.id, timeZone]
+  );
+  await syncUserSettings(databaseClientPool);
+  interaction.reply({
+    content: timeZone
+      ? `I'll read your times in ${timeZone} from now on.`
+      : "I'll read your times in UTC from now on.",
+    ephemeral: true,
+  });
+}
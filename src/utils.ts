@@ -1,4 +1,5 @@
 import { decode } from "html-entities";
+import { ROLLOVER_TIME, ROLLOVER_WINDOW } from "./constants";
 
 export function indent(textToIndent: string): string {
   return `${decode("&nbsp;&nbsp;&nbsp;​&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;")}${textToIndent.replace(
@@ -20,3 +21,23 @@ export function toWikiLink(input: string): string {
 export function clamp(num: number, min: number, max: number): number {
   return num <= min ? min : num >= max ? max : num;
 }
+
+export function nextRollover(now: number = Date.now()): number {
+  const rollover = new Date(now);
+  rollover.setUTCHours(ROLLOVER_TIME.hour, ROLLOVER_TIME.minute, 0, 0);
+  if (rollover.getTime() <= now) rollover.setUTCDate(rollover.getUTCDate() + 1);
+  return rollover.getTime();
+}
+
+export function isDuringRollover(now: number = Date.now()): boolean {
+  const next = nextRollover(now);
+  const previous = next - 24 * 60 * 60 * 1000;
+  return next - now < ROLLOVER_WINDOW.before || now - previous < ROLLOVER_WINDOW.after;
+}
+
+export function rolloverWindowEnd(now: number = Date.now()): number {
+  const next = nextRollover(now);
+  return now - (next - 24 * 60 * 60 * 1000) < ROLLOVER_WINDOW.after
+    ? next - 24 * 60 * 60 * 1000 + ROLLOVER_WINDOW.after
+    : next + ROLLOVER_WINDOW.after;
+}
@@ -0,0 +1,51 @@
+import { decode } from "html-entities";
+
+export type WhitelistRank = {
+  level: number;
+  name: string;
+};
+
+export type WhitelistEntry = {
+  playerId: number;
+  username: string;
+  level: number;
+  rank: string;
+  title: string;
+};
+
+export type Whitelist = {
+  // The ranks a player can be added at, which every clan names and numbers for itself
+  ranks: WhitelistRank[];
+  members: WhitelistEntry[];
+};
+
+// The form for adding someone has the one select called just "level"
+const RANKS_MATCHER = /<select name=['"]?level['"]?>([\s\S]*?)<\/select>/i;
+const OPTION_MATCHER = /<option value=['"]?(\d+)['"]?([^>]*)>([^<]*)<\/option>/gi;
+const MEMBER_MATCHER =
+  /<tr>(?:(?!<\/tr>)[\s\S])*?who=(\d+)['"]?>([^<]+)<\/a>((?:(?!<\/tr>)[\s\S])*)<\/tr>/gi;
+const MEMBER_RANK_MATCHER = /<select name=['"]?level\d+['"]?>([\s\S]*?)<\/select>/i;
+const MEMBER_TITLE_MATCHER = /name=['"]?title\d+['"]?[^>]*?value=(?:"([^"]*)"|'([^']*)')/i;
+
+function parseRanks(select: string): WhitelistRank[] {
+  return [...select.matchAll(OPTION_MATCHER)].map((option) => ({
+    level: parseInt(option[1]),
+    name: decode(option[3]).trim(),
+  }));
+}
+
+export function parseWhitelist(page: string): Whitelist {
+  const members = [...page.matchAll(MEMBER_MATCHER)].map((row) => {
+    const options = [...(MEMBER_RANK_MATCHER.exec(row[3])?.[1] || "").matchAll(OPTION_MATCHER)];
+    const selected = options.find((option) => /selected/i.test(option[2]));
+    const title = MEMBER_TITLE_MATCHER.exec(row[3]);
+    return {
+      playerId: parseInt(row[1]),
+      username: decode(row[2]).trim(),
+      level: selected ? parseInt(selected[1]) : 0,
+      rank: selected ? decode(selected[3]).trim() : "",
+      title: decode(title?.[1] ?? title?.[2] ?? ""),
+    };
+  });
+  return { ranks: parseRanks(RANKS_MATCHER.exec(page)?.[1] || ""), members: members };
+}
@@ -1,8 +1,9 @@
 import axios from "axios";
-import { MessageEmbed } from "discord.js";
+import { ApplicationCommandOptionChoiceData, MessageEmbed } from "discord.js";
 import { Effect, Familiar, Item, Monster, Skill, Thing } from "./things";
 import { KOLClient } from "./kolclient";
-import { cleanString } from "./utils";
+import { cleanString, toWikiLink } from "./utils";
+import { oafFooter } from "./guildsettings";
 import { PACKAGES, REVERSE_PACKAGES } from "./constants";
 
 type FoundName = {
@@ -11,6 +12,19 @@ type FoundName = {
   image?: string;
 };
 
+type ThingKind = "item" | "skill" | "effect" | "familiar" | "monster";
+
+// A thing mafia knows about, kept by kind and id, as the same name can be an item and an effect
+type IndexedThing = {
+  kind: ThingKind;
+  id: number;
+  name: string;
+  thing: Thing;
+};
+
+// What an autocompleted /wiki term looks like, so it can be looked up without searching the wiki
+const THING_REFERENCE = /^(item|skill|effect|familiar|monster):(\d+)$/;
+
 class PizzaNode {
   children: Map<string, PizzaNode> = new Map();
   letters: string;
@@ -58,6 +72,8 @@ class PizzaNode {
 export class WikiSearcher {
   private _nameMap: Map<string, FoundName> = new Map();
   private _thingMap: Map<string, Thing> = new Map();
+  private _thingIndex: Map<string, IndexedThing> = new Map();
+  private _nameKinds: Map<string, Set<ThingKind>> = new Map();
   private _pizzaTreeRoot: PizzaNode = new PizzaNode("");
   private _client: KOLClient;
   private _searchApiKey: string;
@@ -114,6 +130,7 @@ export class WikiSearcher {
         }
         if (skill.name()) {
           this._thingMap.set(skill.name(), skill);
+          this.indexThing("skill", skill.get().id, skill.get().name, skill);
         }
       } catch {}
     }
@@ -127,6 +144,7 @@ export class WikiSearcher {
         if (item.get().id > this._finalItemId) this._finalItemId = item.get().id;
         if (item.name()) {
           this._thingMap.set(item.name(), item);
+          this.indexThing("item", item.get().id, item.get().name, item);
           if (item.get().types.includes("avatar")) {
             avatarPotionSet.add(item.name());
           }
@@ -195,6 +213,7 @@ export class WikiSearcher {
         const monster = new Monster(line);
         if (monster.name()) {
           this._thingMap.set(monster.name(), monster);
+          this.indexThing("monster", monster.get().id, monster.get().name, monster);
         }
       } catch {}
     }
@@ -213,6 +232,7 @@ export class WikiSearcher {
           hatchling.addGrowingFamiliar(familiar);
           familiar.addEquipment(this._thingMap.get(familiar.get().item.toLowerCase()) as Item);
           this._thingMap.set(familiar.name(), familiar);
+          this.indexThing("familiar", familiar.get().id, familiar.get().name, familiar);
           (this._thingMap.get(familiar.get().item.toLowerCase()) as Item).addEquppingFamiliar(
             familiar
           );
@@ -229,6 +249,7 @@ export class WikiSearcher {
         const effect = new Effect(line, avatarPotionSet);
         if (effect.name()) {
           this._thingMap.set(effect.name(), effect);
+          this.indexThing("effect", effect.get().id, effect.get().name, effect);
           if (effect.get().hookah) {
             this._pizzaTreeRoot.addEffectToTree(effect.name(), effect);
           }
@@ -240,8 +261,55 @@ export class WikiSearcher {
     this._lastDownloadTime = Date.now();
   }
 
+  private indexThing(kind: ThingKind, id: number, name: string, thing: Thing): void {
+    this._thingIndex.set(`${kind}:${id}`, { kind: kind, id: id, name: name, thing: thing });
+    const kinds = this._nameKinds.get(name.toLowerCase()) ?? new Set();
+    this._nameKinds.set(name.toLowerCase(), kinds.add(kind));
+  }
+
+  // The wiki gives things that share a name with another kind of thing pages like "X (effect)"
+  private wikiLink(indexed: IndexedThing): string {
+    const shared = (this._nameKinds.get(indexed.name.toLowerCase())?.size ?? 0) > 1;
+    return toWikiLink(shared ? `${indexed.name} (${indexed.kind})` : indexed.name);
+  }
+
+  // An autocompleted term can't be looked up until mafia's data has been read
+  stillLoading(term: string): boolean {
+    return THING_REFERENCE.test(term) && !this._thingIndex.size;
+  }
+
+  // Things whose names look like what's been typed so far: whole names first, then ones that
+  // start with it, have a word that starts with it, contain it, or have its letters in order
+  thingChoices(input: string): ApplicationCommandOptionChoiceData[] {
+    const search = input.trim().toLowerCase();
+    if (!search) return [];
+    const score = (name: string) => {
+      if (name === search) return 0;
+      if (name.startsWith(search)) return 1;
+      if (name.split(/[^a-z0-9]+/).some((word) => word.startsWith(search))) return 2;
+      if (name.includes(search)) return 3;
+      let found = 0;
+      for (const letter of name) if (letter === search[found]) found++;
+      return found === search.length ? 4 : undefined;
+    };
+    const matches: { entry: IndexedThing; score: number }[] = [];
+    for (const entry of this._thingIndex.values()) {
+      const matched = score(entry.name.toLowerCase());
+      if (matched !== undefined) matches.push({ entry: entry, score: matched });
+    }
+    return matches
+      .sort((a, b) => a.score - b.score || a.entry.name.length - b.entry.name.length)
+      .slice(0, 25)
+      .map(({ entry }) => ({
+        name: `${entry.name} (${entry.kind} ${entry.id})`.slice(0, 100),
+        value: `${entry.kind}:${entry.id}`,
+      }));
+  }
+
   async reloadMafiaData(): Promise<void> {
     this._thingMap.clear();
+    this._thingIndex.clear();
+    this._nameKinds.clear();
     this._pizzaTreeRoot = new PizzaNode("");
     await this.downloadMafiaData();
   }
@@ -254,13 +322,23 @@ export class WikiSearcher {
     return false;
   }
 
-  async getEmbed(item: string): Promise<MessageEmbed | undefined> {
+  async getEmbed(item: string, guildId?: string | null): Promise<MessageEmbed | undefined> {
+    if (THING_REFERENCE.test(item)) {
+      const indexed = this._thingIndex.get(item);
+      if (!indexed) return undefined;
+      const embed = new MessageEmbed()
+        .setTitle(indexed.name)
+        .setURL(this.wikiLink(indexed))
+        .setFooter(oafFooter(guildId));
+      await indexed.thing.addToEmbed(embed, this._client);
+      return embed;
+    }
     const foundName = await this.findName(item);
     if (!foundName) return undefined;
-    const embed = new MessageEmbed().setTitle(foundName.name).setURL(foundName.url).setFooter({
-      text: "Problems? Message DocRostov#7004 on discord.",
-      iconURL: "http://images.kingdomofloathing.com/itemimages/oaf.gif",
-    });
+    const embed = new MessageEmbed()
+      .setTitle(foundName.name)
+      .setURL(foundName.url)
+      .setFooter(oafFooter(guildId));
     if (this._thingMap.has(foundName.name.toLowerCase())) {
       const thing = this._thingMap.get(foundName.name.toLowerCase());
       await thing?.addToEmbed(embed, this._client);
@@ -360,7 +438,7 @@ export class WikiSearcher {
     return undefined;
   }
 
-  async getPizzaEmbed(letters: string): Promise<MessageEmbed> {
+  async getPizzaEmbed(letters: string, guildId?: string | null): Promise<MessageEmbed> {
     let node = this._pizzaTreeRoot;
     let i = 0;
     for (; i <= letters.length; i++) {
@@ -380,13 +458,10 @@ export class WikiSearcher {
               : ""
           } Diabolic Pizza has too many possible effects to list.`
         )
-        .setFooter({
-          text: "Problems? Message DocRostov#7004 on discord.",
-          iconURL: "http://images.kingdomofloathing.com/itemimages/oaf.gif",
-        });
+        .setFooter(oafFooter(guildId));
     }
     if (options.length === 1) {
-      return (await this.getEmbed(options[0].name())) || new MessageEmbed();
+      return (await this.getEmbed(options[0].name(), guildId)) || new MessageEmbed();
     }
     let description = "";
     if (i < letters.length) {
@@ -409,10 +484,7 @@ export class WikiSearcher {
     return new MessageEmbed()
       .setTitle(`Possible ${letters.toUpperCase().padEnd(4, "✱")} Pizza effects`)
       .setDescription(description)
-      .setFooter({
-        text: "Problems? Message DocRostov#7004 on discord.",
-        iconURL: "http://images.kingdomofloathing.com/itemimages/oaf.gif",
-      });
+      .setFooter(oafFooter(guildId));
   }
 }
 